@@ -1,4 +1,6 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { authenticateRequest, setCorsHeaders } from "../lib/auth.js";
+import { type HealthCheck, runHealthChecks } from "../lib/health.js";
 
 interface HealthResponse {
   status: "healthy" | "unhealthy";
@@ -7,6 +9,8 @@ interface HealthResponse {
   hasToken: boolean;
   hasSourceDatabaseId: boolean;
   hasParentPageId: boolean;
+  hasProfiles: boolean;
+  checks?: HealthCheck[]; // deep mode only
 }
 
 interface ErrorResponse {
@@ -14,11 +18,9 @@ interface ErrorResponse {
   message?: string;
 }
 
-export default function handler(req: VercelRequest, res: VercelResponse) {
+export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Set CORS headers for all responses
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  setCorsHeaders(req, res, "GET, OPTIONS");
 
   // Handle OPTIONS request (CORS preflight)
   if (req.method === "OPTIONS") {
@@ -34,13 +36,39 @@ export default function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json(errorResponse);
   }
 
+  // Deep mode calls Notion with the clone profile, so it needs the same credentials as cloning.
+  // With write, it also inserts (and deletes again) a paragraph under the parent page.
+  const deep = req.query?.deep === "1" || req.query?.deep === "true";
+  const write = req.query?.write === "1" || req.query?.write === "true";
+  const authFailure = deep ? authenticateRequest(req) : undefined;
+  if (authFailure) {
+    const errorResponse: ErrorResponse = {
+      error: authFailure.statusCode === 401 ? "Unauthorized" : "Forbidden",
+      message: authFailure.error,
+    };
+    if (authFailure.statusCode === 401) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+    }
+    return res.status(authFailure.statusCode).json(errorResponse);
+  }
+
   try {
     // Check all required environment variables
     const hasToken = !!process.env.NOTION_TOKEN;
     const hasSourceDatabaseId = !!process.env.SOURCE_DATABASE_ID;
     const hasParentPageId = !!process.env.PARENT_PAGE_ID;
+    const hasProfiles = !!(process.env.CLONE_PROFILES || process.env.CLONE_PROFILES_FILE);
+
+    // Deep mode also checks Notion access and the source schema of the default profile,
+    // or of the profile named in the query
+    const profileName = req.query.profile === undefined ? undefined : String(req.query.profile);
+    const checks = deep ? await runHealthChecks(profileName, write) : undefined;
 
-    const isHealthy = hasToken && hasSourceDatabaseId && hasParentPageId;
+    // Profiles carry their own source and parent page, so the legacy variables are optional then
+    const isHealthy =
+      hasToken &&
+      (hasProfiles || (hasSourceDatabaseId && hasParentPageId)) &&
+      (checks ?? []).every((check) => check.ok);
 
     const healthResponse: HealthResponse = {
       status: isHealthy ? "healthy" : "unhealthy",
@@ -49,6 +77,8 @@ export default function handler(req: VercelRequest, res: VercelResponse) {
       hasToken,
       hasSourceDatabaseId,
       hasParentPageId,
+      hasProfiles,
+      checks,
     };
 
     const statusCode = isHealthy ? 200 : 503;
@@ -0,0 +1,65 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { authenticateRequest, setCorsHeaders } from "../../lib/auth.js";
+import { getJobStore } from "../../lib/stores.js";
+
+interface ErrorResponse {
+  error: string;
+  message?: string;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Set CORS headers for all responses
+  setCorsHeaders(req, res, "GET, OPTIONS");
+
+  // Handle OPTIONS request (CORS preflight)
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  // Only allow GET requests
+  if (req.method !== "GET") {
+    const errorResponse: ErrorResponse = {
+      error: "Method Not Allowed",
+      message: "Only GET and OPTIONS methods are allowed",
+    };
+    return res.status(405).json(errorResponse);
+  }
+
+  // Job results link to the cloned databases, so they need the same credentials as cloning
+  const authFailure = authenticateRequest(req);
+  if (authFailure) {
+    const errorResponse: ErrorResponse = {
+      error: authFailure.statusCode === 401 ? "Unauthorized" : "Forbidden",
+      message: authFailure.error,
+    };
+    if (authFailure.statusCode === 401) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+    }
+    return res.status(authFailure.statusCode).json(errorResponse);
+  }
+
+  const jobId = String(req.query.id ?? "");
+
+  try {
+    const job = await getJobStore().get(jobId);
+
+    if (!job) {
+      const errorResponse: ErrorResponse = {
+        error: "Job not found",
+        message: `No clone job with ID "${jobId}"`,
+      };
+      return res.status(404).json(errorResponse);
+    }
+
+    return res.status(200).json(job);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error occurred";
+    const isInvalidId = message.includes("Invalid job ID format");
+
+    const errorResponse: ErrorResponse = {
+      error: isInvalidId ? "Invalid job ID" : "Internal Server Error",
+      message,
+    };
+    return res.status(isInvalidId ? 400 : 500).json(errorResponse);
+  }
+}
@@ -0,0 +1,102 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+// Allowed clock difference between a signed request and the server (replay window)
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+interface AuthFailure {
+  statusCode: 401 | 403;
+  error: string;
+}
+
+function getHeader(req: VercelRequest, name: string): string | undefined {
+  const value = req.headers?.[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Read the request body as sent. The signature covers these exact bytes, so the handler parses
+// the body from them instead of the runtime's req.body. @vercel/node buffers the body and replays
+// it on the request stream, so it can still be read here.
+export function readRawBody(req: VercelRequest): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+// Compare secrets in constant time, whatever their lengths
+function safeEqual(a: string, b: string): boolean {
+  const hash = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(hash(a), hash(b));
+}
+
+// Accept "Authorization: Bearer <API_TOKEN>", or an X-Signature HMAC-SHA256 of
+// "<X-Signature-Timestamp>.<body>" keyed with WEBHOOK_SECRET. Without either secret every request
+// is rejected.
+export function authenticateRequest(
+  req: VercelRequest,
+  rawBody = "",
+  now: number = Date.now(),
+): AuthFailure | undefined {
+  const apiToken = process.env.API_TOKEN;
+  const webhookSecret = process.env.WEBHOOK_SECRET;
+
+  if (!apiToken && !webhookSecret) {
+    return { statusCode: 403, error: "Set API_TOKEN or WEBHOOK_SECRET to allow requests" };
+  }
+
+  const authorization = getHeader(req, "authorization");
+  const signature = getHeader(req, "x-signature");
+
+  if (apiToken && authorization?.startsWith("Bearer ")) {
+    return safeEqual(authorization.slice("Bearer ".length).trim(), apiToken)
+      ? undefined
+      : { statusCode: 403, error: "Invalid API token" };
+  }
+
+  if (webhookSecret && signature) {
+    const timestamp = getHeader(req, "x-signature-timestamp");
+    const tolerance =
+      Number(process.env.SIGNATURE_TOLERANCE_SECONDS) || DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+
+    if (!timestamp || !/^\d+$/.test(timestamp)) {
+      return { statusCode: 401, error: "Missing or invalid signature timestamp" };
+    }
+    if (Math.abs(now / 1000 - Number(timestamp)) > tolerance) {
+      return { statusCode: 403, error: "Signature timestamp is outside the allowed window" };
+    }
+
+    const expected = `sha256=${createHmac("sha256", webhookSecret)
+      .update(`${timestamp}.${rawBody}`)
+      .digest("hex")}`;
+    return safeEqual(signature, expected)
+      ? undefined
+      : { statusCode: 403, error: "Invalid signature" };
+  }
+
+  return { statusCode: 401, error: "Authentication required" };
+}
+
+// Browsers may call the API only from the origins in ALLOWED_ORIGINS (comma-separated,
+// "*" allows any origin). Without it no cross-origin access is granted.
+export function setCorsHeaders(req: VercelRequest, res: VercelResponse, methods: string): void {
+  const allowedOrigins = (process.env.ALLOWED_ORIGINS || "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  const origin = getHeader(req, "origin");
+
+  if (allowedOrigins.includes("*")) {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+  } else if (origin && allowedOrigins.includes(origin)) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Vary", "Origin");
+  }
+  res.setHeader("Access-Control-Allow-Methods", methods);
+  res.setHeader(
+    "Access-Control-Allow-Headers",
+    "Content-Type, Authorization, X-Signature, X-Signature-Timestamp",
+  );
+}
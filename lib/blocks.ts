@@ -0,0 +1,190 @@
+import { notion } from "./notion.js";
+
+// Block types the API cannot create; they are reported as skipped instead of failing the page
+const UNSUPPORTED_BLOCK_TYPES = new Set([
+  "child_page",
+  "child_database",
+  "link_preview",
+  "synced_block",
+  "template",
+  "unsupported",
+]);
+
+// Media blocks whose Notion-hosted files expire and cannot be re-uploaded through the API
+const MEDIA_BLOCK_TYPES = new Set(["image", "video", "audio", "file", "pdf"]);
+
+// Blocks whose children must be sent together with the block itself
+const INLINE_CHILDREN_BLOCK_TYPES = new Set(["table", "column_list"]);
+
+// Notion accepts at most 100 blocks per append request
+const MAX_BLOCKS_PER_APPEND = 100;
+
+export interface BlockCopyStats {
+  copiedBlocksCount: number;
+  failedBlocksCount: number;
+  skippedBlocks: { [blockType: string]: number };
+}
+
+// Convert a block from the API into an append request without its children.
+// Returns null for blocks the API cannot create.
+export function toBlockRequest(block: any): any | null {
+  if (UNSUPPORTED_BLOCK_TYPES.has(block.type)) {
+    return null;
+  }
+
+  const { children, ...content } = block[block.type] ?? {};
+
+  if (MEDIA_BLOCK_TYPES.has(block.type) && content.type !== "external") {
+    return null;
+  }
+
+  return { type: block.type, [block.type]: content };
+}
+
+function countSkippedBlock(block: any, stats: BlockCopyStats): void {
+  stats.skippedBlocks[block.type] = (stats.skippedBlocks[block.type] || 0) + 1;
+  console.log(`⏭️ Skipping ${block.type} block that cannot be created via the API`);
+}
+
+// List all children of a block or page
+async function listBlockChildren(blockId: string): Promise<any[]> {
+  let blocks: any[] = [];
+  let startCursor: string | undefined = undefined;
+
+  do {
+    const response = await notion.blocks.children.list({
+      block_id: blockId,
+      start_cursor: startCursor,
+      page_size: 100,
+    });
+
+    blocks = blocks.concat(response.results);
+    startCursor = response.next_cursor || undefined;
+  } while (startCursor);
+
+  return blocks;
+}
+
+// Build the append request for a block with the children tables and column lists need at
+// creation. Returns the inlined source blocks, whose own children are copied afterwards.
+async function buildBlockRequest(
+  block: any,
+  stats: BlockCopyStats,
+): Promise<{ request: any; inlinedSources: any[][] } | null> {
+  const request = toBlockRequest(block);
+  if (!request) {
+    return null;
+  }
+
+  const inlinedSources: any[][] = [];
+
+  if (block.type === "table") {
+    const rows = await listBlockChildren(block.id);
+    request.table.children = rows.map(toBlockRequest).filter(Boolean);
+  }
+
+  if (block.type === "column_list") {
+    const columns = await listBlockChildren(block.id);
+    request.column_list.children = [];
+
+    for (const column of columns) {
+      const columnSources: any[] = [];
+      const columnChildren: any[] = [];
+
+      for (const child of await listBlockChildren(column.id)) {
+        const childRequest = await buildBlockRequest(child, stats);
+        if (childRequest) {
+          columnSources.push(child);
+          columnChildren.push(childRequest.request);
+        } else {
+          countSkippedBlock(child, stats);
+        }
+      }
+
+      inlinedSources.push(columnSources);
+      request.column_list.children.push({ type: "column", column: { children: columnChildren } });
+    }
+  }
+
+  return { request, inlinedSources };
+}
+
+// Copy nested children of blocks that were created together with their parent.
+// Returns the number of blocks that could not be appended.
+async function copyInlinedDescendants(
+  inlinedSources: any[][],
+  createdBlockId: string,
+  stats: BlockCopyStats,
+): Promise<number> {
+  let failedCount = 0;
+  const createdColumns = await listBlockChildren(createdBlockId);
+
+  for (const [index, column] of createdColumns.entries()) {
+    const sources = inlinedSources[index] ?? [];
+    const createdChildren = await listBlockChildren(column.id);
+
+    for (const [childIndex, source] of sources.entries()) {
+      const created = createdChildren[childIndex];
+      if (created && source.has_children && !INLINE_CHILDREN_BLOCK_TYPES.has(source.type)) {
+        failedCount += await copyBlockChildren(source.id, created.id, stats);
+      }
+    }
+  }
+
+  return failedCount;
+}
+
+// Recursively copy the body of a page (or the children of a block) onto the target.
+// A failed append does not stop the copy; returns the number of blocks that could not be
+// appended, so callers can report the page as copied incompletely.
+export async function copyBlockChildren(
+  sourceBlockId: string,
+  targetBlockId: string,
+  stats: BlockCopyStats,
+): Promise<number> {
+  let failedCount = 0;
+  const copyable: { source: any; request: any; inlinedSources: any[][] }[] = [];
+
+  for (const block of await listBlockChildren(sourceBlockId)) {
+    const built = await buildBlockRequest(block, stats);
+    if (built) {
+      copyable.push({ source: block, ...built });
+    } else {
+      countSkippedBlock(block, stats);
+    }
+  }
+
+  for (let i = 0; i < copyable.length; i += MAX_BLOCKS_PER_APPEND) {
+    const chunk = copyable.slice(i, i + MAX_BLOCKS_PER_APPEND);
+
+    let createdBlocks: any[];
+    try {
+      const response = await notion.blocks.children.append({
+        block_id: targetBlockId,
+        children: chunk.map((item) => item.request),
+      });
+      createdBlocks = response.results;
+      stats.copiedBlocksCount += chunk.length;
+    } catch (error) {
+      stats.failedBlocksCount += chunk.length;
+      failedCount += chunk.length;
+      console.error(`❌ Error appending ${chunk.length} blocks to ${targetBlockId}:`, error);
+      continue;
+    }
+
+    for (const [index, item] of chunk.entries()) {
+      const created = createdBlocks[index];
+      if (!created || !item.source.has_children) {
+        continue;
+      }
+
+      if (item.source.type === "column_list") {
+        failedCount += await copyInlinedDescendants(item.inlinedSources, created.id, stats);
+      } else if (!INLINE_CHILDREN_BLOCK_TYPES.has(item.source.type)) {
+        failedCount += await copyBlockChildren(item.source.id, created.id, stats);
+      }
+    }
+  }
+
+  return failedCount;
+}
@@ -0,0 +1,716 @@
+import { type BlockCopyStats, copyBlockChildren } from "./blocks.js";
+import {
+  type UnrecreatedProperty,
+  buildDerivedPropertyConfig,
+  collectDerivedProperties,
+  recreateDerivedProperties,
+} from "./derived-properties.js";
+import { getErrorMessage } from "./errors.js";
+import {
+  type HierarchyAnalysis,
+  type HierarchyIssues,
+  type OrphanPageCounts,
+  analyzeHierarchy,
+  countOrphanPages,
+  getSuitePath,
+  getSuiteTitle,
+  isSkippedOrphan,
+} from "./hierarchy.js";
+import { getProfileNamePattern, resolveDatabaseName } from "./naming.js";
+import { BATCH_SIZE, getDatabaseTitle, getPageTitle, notion } from "./notion.js";
+import type { CloneOptions, HierarchyMode } from "./options.js";
+import {
+  type PropertyRulesConfig,
+  buildCloneSchema,
+  buildClonedPageProperties,
+  filterDatabaseSchemaProperties,
+  filterPropertiesForCreation,
+} from "./property-rules.js";
+import {
+  NESTED_PARENT_PROPERTY,
+  buildClonedRelationsMap,
+  buildRelationSchema,
+  getClonedRelationProperties,
+  linkClonedHierarchy,
+  remapPageRelations,
+} from "./relations.js";
+import {
+  type DroppedProperty,
+  type PageIssue,
+  type ProgressCallback,
+  type RunReport,
+  buildRunReport,
+  collectDroppedProperties,
+  createPhaseTimer,
+} from "./report.js";
+import type { CloneRequest } from "./request.js";
+import {
+  type CloneRecord,
+  applyRetentionPolicy,
+  listEarlierClones,
+  recordClone,
+  selectExpiredClones,
+} from "./retention.js";
+import {
+  type SchemaCheck,
+  type SchemaDrift,
+  checkSourceSchema,
+  saveSchemaFingerprint,
+} from "./schema-drift.js";
+import { type ExportResponse, readSnapshotSource, runExport } from "./snapshot.js";
+import { type SourcePages, fetchSourcePages } from "./source.js";
+import { type SyncResponse, runSync } from "./sync.js";
+import { updateTriggerPage } from "./trigger.js";
+
+interface ClonePlan {
+  schema: any;
+  droppedProperties: DroppedProperty[];
+  pagesToCreateCount: number;
+  matchedPagesCount: number;
+  addedParentPagesCount: number;
+  skippedOrphanPages: { id: string; title: string }[];
+  orphanPages: OrphanPageCounts;
+  hierarchy: { page: string; parent: string }[];
+  hierarchyIssues: HierarchyIssues;
+}
+
+// Placeholder for the ID of the database a dry run would create
+const PLANNED_DATABASE_ID = "<new database>";
+
+interface SuccessResponse {
+  success: boolean; // false when the run failed by the failure threshold
+  newDatabaseId: string;
+  newDatabaseUrl: string;
+  message: string;
+  copiedPagesCount: number;
+  orphanPages: OrphanPageCounts;
+  remappedRelationsCount: number;
+  unresolvedRelationsCount: number;
+  hierarchyMode: HierarchyMode;
+  linkedSubItemsCount: number;
+  copiedBlocksCount: number;
+  failedBlocksCount: number;
+  skippedBlocks: { [blockType: string]: number };
+  unrecreatedProperties: UnrecreatedProperty[];
+  profile: string;
+  matchedPagesCount: number;
+  addedParentPagesCount: number;
+  jobId?: string;
+  resumedPagesCount: number;
+  archivedClones: CloneRecord[];
+  retriedRequestsCount: number;
+  rateLimitedCount: number;
+  triggerPageUpdated?: boolean;
+  report: RunReport;
+  schemaDrift?: SchemaDrift;
+  schemaProblems?: string[];
+}
+
+// Result of any run: a new clone, a dry-run plan, a sync of an existing clone or an export
+export type CloneResult = SuccessResponse | DryRunResponse | SyncResponse | ExportResponse;
+
+interface DryRunResponse {
+  success: true;
+  dryRun: true;
+  profile: string;
+  sourceDatabaseId: string;
+  parentPageId: string;
+  newDatabaseName: string;
+  plan: ClonePlan;
+  clonesToArchive: CloneRecord[]; // earlier clones the retention policy would archive
+  schemaDrift?: SchemaDrift;
+  schemaProblems?: string[];
+  jobId?: string;
+}
+
+interface CopyResult {
+  copiedPagesCount: number;
+  resumedPagesCount: number;
+  pageIdMap: Map<string, string>; // source page ID -> cloned page ID
+  blockStats: BlockCopyStats;
+  skippedPages: PageIssue[];
+  failedPages: PageIssue[];
+  droppedPages: PageIssue[];
+}
+
+interface CopyHooks {
+  copiedPages?: Map<string, string>; // source page ID -> cloned page ID from an earlier run
+  // Called after each batch with the pages copied so far and the number of source pages gone
+  // through
+  onBatch?: (
+    pageIdMap: Map<string, string>,
+    pagesDone: number,
+    failedPagesCount: number,
+  ) => Promise<void>;
+}
+
+// Progress saved after each batch, so an interrupted clone can be resumed into the same database
+export interface CloneCheckpoint {
+  targetDatabaseId: string;
+  newDatabaseName: string;
+  copiedPages: { [sourcePageId: string]: string }; // source page ID -> cloned page ID
+}
+
+interface CloneHooks {
+  onProgress?: ProgressCallback;
+  resumeFrom?: CloneCheckpoint;
+  onCheckpoint?: (checkpoint: CloneCheckpoint) => Promise<void>;
+}
+
+// Schema of the new database: a clone gets the property rules with the Source ID and suite
+// columns, a restore the snapshot schema as it was exported
+function buildTargetSchema(
+  sourceProperties: any,
+  options: CloneOptions,
+  rules: PropertyRulesConfig,
+) {
+  return options.mode === "restore"
+    ? filterDatabaseSchemaProperties(sourceProperties, rules)
+    : buildCloneSchema(sourceProperties, rules);
+}
+
+// Describe what a clone would do: the resulting schema, dropped properties with the reason,
+// the pages that would be created or skipped, and the hierarchy map
+export function buildClonePlan(
+  sourceProperties: any,
+  source: SourcePages,
+  hierarchy: HierarchyAnalysis,
+  sourceDatabaseId: string,
+  options: CloneOptions,
+  rules: PropertyRulesConfig,
+): ClonePlan {
+  const droppedProperties = collectDroppedProperties(sourceProperties, options, rules);
+
+  // Relations, formulas and rollups are added after the pages; show them in their final form
+  const relationProperties = getClonedRelationProperties(sourceProperties, options, rules);
+  const schema = {
+    ...buildTargetSchema(sourceProperties, options, rules),
+    ...buildRelationSchema(relationProperties, sourceDatabaseId, PLANNED_DATABASE_ID),
+  };
+
+  if (options.hierarchyMode === "nested") {
+    schema[NESTED_PARENT_PROPERTY] = {
+      relation: { database_id: PLANNED_DATABASE_ID, type: "dual_property", dual_property: {} },
+    };
+  }
+
+  const clonedRelations = buildClonedRelationsMap(relationProperties, sourceDatabaseId, options);
+  for (const [name, prop] of Object.entries(collectDerivedProperties(sourceProperties, rules))) {
+    const result = buildDerivedPropertyConfig(prop, clonedRelations, rules, sourceProperties);
+    if ("reason" in result) {
+      droppedProperties.push({ name: prop.sourceName, type: prop.type, reason: result.reason });
+    } else {
+      schema[name] = result.config;
+    }
+  }
+
+  const skippedOrphanPages = source.pages
+    .filter((page) => isSkippedOrphan(page, hierarchy, options))
+    .map((page) => ({ id: page.id, title: getPageTitle(page) }));
+
+  return {
+    schema,
+    droppedProperties,
+    pagesToCreateCount: source.pages.length - skippedOrphanPages.length,
+    matchedPagesCount: source.matchedPagesCount,
+    addedParentPagesCount: source.addedParentPagesCount,
+    skippedOrphanPages,
+    orphanPages: countOrphanPages(source.pages, hierarchy, options),
+    hierarchy: [...hierarchy.parentIdMap].map(([pageId, parentId]) => ({
+      page: hierarchy.titles.get(pageId)!,
+      parent: hierarchy.titles.get(parentId)!,
+    })),
+    hierarchyIssues: hierarchy.issues,
+  };
+}
+
+// STEP 1: Copy database pages content with Test Suite field populated
+async function copyDatabaseContent(
+  allPages: any[],
+  hierarchy: HierarchyAnalysis,
+  targetDatabaseId: string,
+  options: CloneOptions,
+  rules: PropertyRulesConfig,
+  hooks: CopyHooks = {},
+): Promise<CopyResult> {
+  // FAST approach: batch processing with Promise.allSettled.
+  // Pages an interrupted run already copied are kept and not created again.
+  const pageIdMap = new Map<string, string>(hooks.copiedPages ?? []);
+  const resumedPagesCount = pageIdMap.size;
+  const pendingPages = allPages.filter((page) => !pageIdMap.has(page.id));
+  const blockStats: BlockCopyStats = {
+    copiedBlocksCount: 0,
+    failedBlocksCount: 0,
+    skippedBlocks: {},
+  };
+  const skippedPages: PageIssue[] = [];
+  const failedPages: PageIssue[] = [];
+  const droppedPages: PageIssue[] = [];
+  let copiedCount = 0;
+  let successfulCopies = 0;
+  let failedCopies = 0;
+
+  // Process pages in batches
+  for (let i = 0; i < pendingPages.length; i += BATCH_SIZE) {
+    const batch = pendingPages.slice(i, i + BATCH_SIZE);
+    console.log(
+      `🚀 Processing batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(pendingPages.length / BATCH_SIZE)} (${batch.length} pages)...`,
+    );
+
+    // Create promises for this batch
+    const batchPages = batch.filter((page) => "properties" in page); // Type guard
+    const batchPromises = batchPages.map(async (page, batchIndex) => {
+      // Fill the Test Suite field with the parent name, or the orphan policy value for roots.
+      // Restored pages keep the values of the snapshot.
+      const filteredProperties =
+        options.mode === "restore"
+          ? filterPropertiesForCreation(page.properties, rules)
+          : buildClonedPageProperties(
+              page,
+              getSuiteTitle(page, hierarchy, options),
+              options,
+              rules,
+              getSuitePath(page, hierarchy, options),
+            );
+
+      if (isSkippedOrphan(page, hierarchy, options)) {
+        // Skip pages without parents (no Test Suite content).
+        return {
+          success: false,
+          error: "No parent found - skipping page without Test Suite",
+          originalPage: page,
+          batchIndex,
+        };
+      }
+
+      try {
+        const result = await notion.pages.create({
+          parent: {
+            type: "database_id",
+            database_id: targetDatabaseId,
+          },
+          properties: filteredProperties,
+        });
+
+        // Copy the page body; blocks that fail keep the page but report it as copied incompletely
+        if (options.copyContent) {
+          try {
+            const failedBlocksCount = await copyBlockChildren(page.id, result.id, blockStats);
+            if (failedBlocksCount > 0) {
+              throw new Error(`${failedBlocksCount} blocks could not be appended`);
+            }
+          } catch (error) {
+            console.error(`❌ Error copying content of page "${getPageTitle(page)}":`, error);
+            droppedPages.push({
+              id: page.id,
+              title: getPageTitle(page),
+              reason: `Page content not copied: ${getErrorMessage(error)}`,
+            });
+          }
+        }
+
+        return { success: true, result, originalPage: page, batchIndex };
+      } catch (error) {
+        console.error(`❌ Error creating page "${getPageTitle(page)}":`, error);
+        return { success: false, error, originalPage: page, batchIndex };
+      }
+    });
+
+    // Execute batch in parallel
+    const results = await Promise.allSettled(batchPromises);
+
+    // Count successful copies and skipped pages
+    results.forEach((result, index) => {
+      copiedCount++;
+      if (result.status === "fulfilled") {
+        const pageResult = result.value;
+        if (pageResult.success) {
+          successfulCopies++;
+          pageIdMap.set(pageResult.originalPage.id, (pageResult as any).result.id);
+        } else {
+          if (pageResult.error?.toString().includes("No parent found")) {
+            // This is a skipped page, don't count as failed
+            console.log(
+              `⏭️ Skipped page without Test Suite: "${getPageTitle(pageResult.originalPage)}"`,
+            );
+            skippedPages.push({
+              id: pageResult.originalPage.id,
+              title: getPageTitle(pageResult.originalPage),
+              reason: String(pageResult.error),
+            });
+          } else {
+            failedCopies++;
+            console.error(
+              `❌ Failed to copy page ${copiedCount}/${pendingPages.length}:`,
+              pageResult.error,
+            );
+            failedPages.push({
+              id: pageResult.originalPage.id,
+              title: getPageTitle(pageResult.originalPage),
+              reason: getErrorMessage(pageResult.error),
+            });
+          }
+        }
+      } else {
+        failedCopies++;
+        console.error(
+          `❌ Promise rejected for page ${copiedCount}/${pendingPages.length}:`,
+          result.reason,
+        );
+        failedPages.push({
+          id: batchPages[index].id,
+          title: getPageTitle(batchPages[index]),
+          reason: getErrorMessage(result.reason),
+        });
+      }
+    });
+
+    await hooks.onBatch?.(pageIdMap, resumedPagesCount + copiedCount, failedCopies);
+  }
+
+  console.log(
+    `🎉 Processing completed: ${successfulCopies} successful, ${failedCopies} failed, ${copiedCount} total processed`,
+  );
+  if (options.copyContent) {
+    console.log(
+      `📝 Content copied: ${blockStats.copiedBlocksCount} blocks, ${blockStats.failedBlocksCount} failed`,
+    );
+  }
+
+  return {
+    copiedPagesCount: successfulCopies,
+    resumedPagesCount,
+    pageIdMap,
+    blockStats,
+    skippedPages,
+    failedPages,
+    droppedPages,
+  };
+}
+
+// Archive target pages no checkpoint knows about: the unfinished batch of an interrupted run
+async function archiveUncheckpointedPages(
+  targetDatabaseId: string,
+  copiedPages: Map<string, string>,
+): Promise<number> {
+  const knownPageIds = new Set(copiedPages.values());
+  const strayPageIds: string[] = [];
+  let hasMore = true;
+  let startCursor: string | undefined = undefined;
+
+  while (hasMore) {
+    const response = await notion.databases.query({
+      database_id: targetDatabaseId,
+      start_cursor: startCursor,
+      page_size: 100,
+    });
+
+    for (const page of response.results) {
+      if (!knownPageIds.has(page.id)) {
+        strayPageIds.push(page.id);
+      }
+    }
+
+    hasMore = response.has_more;
+    startCursor = response.next_cursor || undefined;
+  }
+
+  for (let i = 0; i < strayPageIds.length; i += BATCH_SIZE) {
+    await Promise.all(
+      strayPageIds
+        .slice(i, i + BATCH_SIZE)
+        .map((pageId) => notion.pages.update({ page_id: pageId, archived: true })),
+    );
+  }
+
+  if (strayPageIds.length > 0) {
+    console.log(`🧹 Archived ${strayPageIds.length} pages left over from the interrupted batch`);
+  }
+  return strayPageIds.length;
+}
+
+// Run a clone (or a dry run, a sync or an export) end to end. With resumeFrom the clone
+// continues in the database of an interrupted run.
+export async function runClone(
+  request: CloneRequest,
+  hooks: CloneHooks = {},
+): Promise<CloneResult> {
+  const { profileName, profile, options, query } = request;
+  const { resumeFrom, onCheckpoint } = hooks;
+  // A restore rebuilds the snapshot as it was exported, without running the rules again
+  const rules = request.snapshot ? { ...request.rules, rules: [] } : request.rules;
+
+  // Syncs and exports keep no checkpoint: running them again is the resume
+  if (options.mode === "sync") {
+    return runSync(request, hooks.onProgress);
+  }
+  if (options.mode === "export") {
+    return runExport(request, hooks.onProgress);
+  }
+
+  const timer = createPhaseTimer(hooks.onProgress);
+  const onProgress = timer.onProgress;
+
+  const sourceDatabaseId = profile.sourceDatabaseId;
+  const parentPageId = profile.parentPageId;
+
+  console.log("🚀 Starting database cloning process...");
+  console.log(`🗂️ Profile: ${profileName}`);
+  console.log(`📊 Source Database ID: ${sourceDatabaseId}`);
+  console.log(`📁 Parent Page ID: ${parentPageId}`);
+  console.log(`🌳 Hierarchy mode: ${options.hierarchyMode}`);
+  console.log(`📝 Copy page content: ${options.copyContent}`);
+
+  let sourceDatabase: any;
+  let source: SourcePages;
+  let hierarchy: HierarchyAnalysis;
+  let schemaCheck: SchemaCheck | undefined;
+
+  if (request.snapshot) {
+    // Restore: the schema, pages and hierarchy come from the snapshot instead of the source
+    ({ sourceDatabase, source, hierarchy } = readSnapshotSource(request.snapshot));
+    console.log(
+      `📦 Restoring snapshot of "${request.snapshot.title}" from ${request.snapshot.exportedAt}`,
+    );
+  } else {
+    // Get source database
+    await onProgress({ phase: "retrieving_source" });
+    sourceDatabase = await notion.databases.retrieve({
+      database_id: sourceDatabaseId,
+    });
+
+    console.log("✅ Successfully retrieved source database");
+    schemaCheck = await checkSourceSchema(sourceDatabase, request);
+
+    await onProgress({ phase: "fetching_pages" });
+    source = await fetchSourcePages(sourceDatabaseId, rules, query);
+    hierarchy = analyzeHierarchy(source.pages, rules);
+  }
+
+  // Name the clone now that the source title and the page count are known
+  const { name: newName, sequence } = resumeFrom
+    ? { name: resumeFrom.newDatabaseName, sequence: 0 }
+    : await resolveDatabaseName(
+        request,
+        getDatabaseTitle(sourceDatabase),
+        source.pages.filter((page) => !isSkippedOrphan(page, hierarchy, options)).length,
+      );
+  console.log(`🏷️ New Database Name: ${newName}`);
+  const namePattern = getProfileNamePattern(request, getDatabaseTitle(sourceDatabase));
+
+  // Dry run: report what the clone would do without writing anything
+  if (options.dryRun) {
+    const dryRunResponse: DryRunResponse = {
+      success: true,
+      dryRun: true,
+      profile: profileName,
+      sourceDatabaseId,
+      parentPageId,
+      newDatabaseName: newName,
+      plan: buildClonePlan(
+        sourceDatabase.properties,
+        source,
+        hierarchy,
+        sourceDatabaseId,
+        options,
+        rules,
+      ),
+      clonesToArchive: request.retention
+        ? selectExpiredClones(
+            await listEarlierClones(request, namePattern),
+            request.retention,
+            Date.now(),
+          )
+        : [],
+      ...schemaCheck,
+    };
+
+    console.log("🧪 Dry run completed, nothing was written");
+    return dryRunResponse;
+  }
+
+  // Filter database properties to exclude problematic ones (relation, rollup) and apply
+  // the property rules (renames, drops, type changes and added columns such as Test Suite)
+  const filteredDatabaseProperties = buildTargetSchema(sourceDatabase.properties, options, rules);
+
+  // Note: Notion API doesn't support wrap configuration for rich_text fields
+  // Wrap behavior is controlled by the Notion UI, not the API
+  if (filteredDatabaseProperties.Action && filteredDatabaseProperties.Action.type === "rich_text") {
+    console.log("🔧 Action field detected (wrap will be configured in Notion UI)");
+  }
+
+  // Create new database with flat structure (STEP 1: copy all data as flat list),
+  // or reopen the one an interrupted run was filling
+  await onProgress({ phase: "creating_database", pagesTotal: source.pages.length });
+  let newDatabase: { id: string; properties?: any };
+  let copiedPages: Map<string, string> | undefined;
+
+  if (resumeFrom) {
+    newDatabase = await notion.databases.retrieve({
+      database_id: resumeFrom.targetDatabaseId,
+    });
+    copiedPages = new Map(Object.entries(resumeFrom.copiedPages));
+
+    console.log(
+      `♻️ Resuming clone into ${newDatabase.id} (${copiedPages.size} pages already copied)`,
+    );
+    await archiveUncheckpointedPages(newDatabase.id, copiedPages);
+  } else {
+    newDatabase = await notion.databases.create({
+      parent: {
+        type: "page_id",
+        page_id: parentPageId,
+      },
+      title: [
+        {
+          type: "text",
+          text: {
+            content: newName,
+          },
+        },
+      ],
+      properties: filteredDatabaseProperties,
+    });
+
+    console.log("✅ Successfully created new database");
+
+    console.log(`✅ Successfully created new database: ${newDatabase.id}`);
+    await recordClone(
+      request,
+      { id: newDatabase.id, title: newName, createdTime: new Date().toISOString() },
+      sequence,
+      namePattern,
+    );
+
+    await onCheckpoint?.({
+      targetDatabaseId: newDatabase.id,
+      newDatabaseName: newName,
+      copiedPages: {},
+    });
+  }
+
+  // Note: Notion API doesn't support reordering properties
+  // Property order is controlled by Notion UI, not API
+  console.log("ℹ️ Property order is controlled by Notion UI (API limitation)");
+
+  // Copy all pages from source to target database as flat list (STEP 1)
+  const { resumedPagesCount, pageIdMap, blockStats, skippedPages, failedPages, ...copyResult } =
+    await copyDatabaseContent(source.pages, hierarchy, newDatabase.id, options, rules, {
+      copiedPages,
+      onBatch: async (batchPageIdMap, pagesDone, failedPagesCount) => {
+        await onProgress({
+          phase: "copying_pages",
+          pagesDone,
+          pagesTotal: source.pages.length,
+          failedPagesCount,
+        });
+        await onCheckpoint?.({
+          targetDatabaseId: newDatabase.id,
+          newDatabaseName: newName,
+          copiedPages: Object.fromEntries(batchPageIdMap),
+        });
+      },
+    });
+  const copiedPagesCount = copyResult.copiedPagesCount + resumedPagesCount;
+
+  console.log(`🎉 Successfully copied ${copiedPagesCount} pages`);
+
+  // Re-add relation properties and point them at the cloned pages (STEP 2).
+  await onProgress({ phase: "linking_relations" });
+  // In nested mode the hierarchy fields are replaced by the rebuilt Sub-items relation.
+  const relationProperties = getClonedRelationProperties(sourceDatabase.properties, options, rules);
+  let remappedRelationsCount = 0;
+  let unresolvedRelationsCount = 0;
+  const droppedPages = copyResult.droppedPages;
+
+  if (Object.keys(relationProperties).length > 0) {
+    await notion.databases.update({
+      database_id: newDatabase.id,
+      properties: buildRelationSchema(relationProperties, sourceDatabaseId, newDatabase.id),
+    });
+    console.log(`🔧 Added relation properties: ${Object.keys(relationProperties).join(", ")}`);
+
+    const remapResult = await remapPageRelations(
+      source.pages,
+      pageIdMap,
+      relationProperties,
+      sourceDatabaseId,
+    );
+    ({ remappedRelationsCount, unresolvedRelationsCount } = remapResult);
+    droppedPages.push(...remapResult.droppedPages);
+  }
+
+  let linkedSubItemsCount = 0;
+  if (options.hierarchyMode === "nested") {
+    // A resumed run may reopen a database that already has the relation
+    linkedSubItemsCount = await linkClonedHierarchy(
+      newDatabase.id,
+      hierarchy.parentIdMap,
+      pageIdMap,
+      NESTED_PARENT_PROPERTY in (newDatabase.properties ?? {}),
+    );
+  }
+
+  // Recreate formulas and rollups on top of the relations now present in the clone
+  await onProgress({ phase: "recreating_properties" });
+  const unrecreatedProperties = await recreateDerivedProperties(
+    newDatabase.id,
+    collectDerivedProperties(sourceDatabase.properties, rules),
+    buildClonedRelationsMap(relationProperties, sourceDatabaseId, options),
+    rules,
+    sourceDatabase.properties,
+  );
+
+  // Generate URL for the new database
+  const newDatabaseUrl = `https://notion.so/${newDatabase.id.replace(/-/g, "")}`;
+
+  const triggerPageUpdated = await updateTriggerPage(request.trigger, newDatabaseUrl);
+  const report = buildRunReport(
+    { skippedPages, failedPages, droppedPages },
+    copiedPagesCount + failedPages.length,
+    [
+      ...collectDroppedProperties(sourceDatabase.properties, options, rules),
+      ...unrecreatedProperties,
+    ],
+    hierarchy.issues,
+    timer.finish(),
+    options.failureThreshold,
+  );
+  // Earlier clones are only archived when this one is usable
+  const archivedClones =
+    report.status === "failed"
+      ? []
+      : await applyRetentionPolicy(request, newDatabase.id, namePattern);
+
+  const successResponse: SuccessResponse = {
+    success: report.status !== "failed",
+    newDatabaseId: newDatabase.id,
+    newDatabaseUrl,
+    message:
+      report.status === "succeeded"
+        ? `Database "${newName}" successfully cloned with ${copiedPagesCount} pages as ${options.hierarchyMode === "nested" ? "nested checklist" : "flat list"}! Properties are alphabetically sorted with prefixes.`
+        : `Database "${newName}" cloned with ${copiedPagesCount} pages; ${failedPages.length} pages failed and ${droppedPages.length} were copied incompletely.`,
+    copiedPagesCount,
+    orphanPages: countOrphanPages(source.pages, hierarchy, options),
+    remappedRelationsCount,
+    unresolvedRelationsCount,
+    hierarchyMode: options.hierarchyMode,
+    linkedSubItemsCount,
+    ...blockStats,
+    unrecreatedProperties,
+    profile: profileName,
+    matchedPagesCount: source.matchedPagesCount,
+    addedParentPagesCount: source.addedParentPagesCount,
+    resumedPagesCount,
+    archivedClones,
+    ...notion.getRunStats(),
+    triggerPageUpdated,
+    report,
+    ...schemaCheck,
+  };
+
+  if (!request.snapshot) {
+    await saveSchemaFingerprint(sourceDatabase);
+  }
+  return successResponse;
+}
@@ -0,0 +1,161 @@
+import { notion } from "./notion.js";
+import {
+  DEFAULT_PROPERTY_RULES,
+  type PropertyRulesConfig,
+  getTargetPropertyName,
+  isDroppedProperty,
+} from "./property-rules.js";
+
+// A formula or rollup that could not be added to the cloned schema
+export interface UnrecreatedProperty {
+  name: string;
+  type: string;
+  reason: string;
+}
+
+// Collect formula and rollup properties from the source schema, keyed by their name in the clone.
+// Rollups come first so formulas that reference them can be created afterwards.
+export function collectDerivedProperties(
+  properties: any,
+  rules: PropertyRulesConfig = DEFAULT_PROPERTY_RULES,
+): { [key: string]: any } {
+  const entries = Object.entries(properties)
+    .filter(
+      ([key, prop]: [string, any]) =>
+        (prop.type === "rollup" || prop.type === "formula") && !isDroppedProperty(key, rules),
+    )
+    .sort(([, a]: [string, any], [, b]: [string, any]) =>
+      a.type === b.type ? 0 : a.type === "rollup" ? -1 : 1,
+    );
+
+  const derivedProperties: { [key: string]: any } = {};
+  for (const [key, prop] of entries) {
+    derivedProperties[getTargetPropertyName(key, rules)] = { ...(prop as any), sourceName: key };
+  }
+
+  return derivedProperties;
+}
+
+// Property IDs in formula references may be URL-encoded
+function decodePropertyId(id: string): string {
+  try {
+    return decodeURIComponent(id);
+  } catch {
+    return id;
+  }
+}
+
+// Point the property references of a formula at the properties' names in the clone. The API
+// returns references as prop("Name") or as {{notion:block_property:<property id>:...}} tokens.
+export function rewriteFormulaExpression(
+  expression: string,
+  sourceProperties: any,
+  rules: PropertyRulesConfig = DEFAULT_PROPERTY_RULES,
+): string {
+  const namesById = new Map(
+    Object.entries(sourceProperties).map(([name, prop]: [string, any]) => [
+      decodePropertyId(prop.id ?? ""),
+      name,
+    ]),
+  );
+  const toReference = (sourceName: string) =>
+    `prop(${JSON.stringify(getTargetPropertyName(sourceName, rules))})`;
+
+  return expression
+    .replace(/prop\("((?:[^"\\]|\\.)*)"\)/g, (_match, name: string) =>
+      toReference(name.replace(/\\(.)/g, "$1")),
+    )
+    .replace(/\{\{notion:block_property:([^:}]+)[^}]*\}\}/g, (match, id: string) => {
+      const name = namesById.get(decodePropertyId(id));
+      return name === undefined ? match : toReference(name);
+    });
+}
+
+// Build the schema config for a formula or rollup, or explain why it cannot be recreated.
+// clonedRelations maps relation names in the source to their name and target in the clone.
+export function buildDerivedPropertyConfig(
+  prop: any,
+  clonedRelations: Map<string, { name: string; isSelfRelation: boolean }>,
+  rules: PropertyRulesConfig = DEFAULT_PROPERTY_RULES,
+  sourceProperties: any = {},
+): { config: any } | { reason: string } {
+  if (prop.type === "formula") {
+    const expression = rewriteFormulaExpression(prop.formula.expression, sourceProperties, rules);
+    return { config: { formula: { expression } } };
+  }
+
+  const relation = clonedRelations.get(prop.rollup.relation_property_name);
+  if (!relation) {
+    return {
+      reason: `Relation property "${prop.rollup.relation_property_name}" is not available in the clone`,
+    };
+  }
+
+  // Rollups over self-relations read properties of the clone, which may have been renamed
+  const rollupPropertyName = relation.isSelfRelation
+    ? getTargetPropertyName(prop.rollup.rollup_property_name, rules)
+    : prop.rollup.rollup_property_name;
+
+  return {
+    config: {
+      rollup: {
+        relation_property_name: relation.name,
+        rollup_property_name: rollupPropertyName,
+        function: prop.rollup.function,
+      },
+    },
+  };
+}
+
+// STEP 2: Add formulas and rollups once their relations exist, retrying failures while
+// progress is made since formulas may reference each other
+export async function recreateDerivedProperties(
+  targetDatabaseId: string,
+  derivedProperties: { [key: string]: any },
+  clonedRelations: Map<string, { name: string; isSelfRelation: boolean }>,
+  rules: PropertyRulesConfig,
+  sourceProperties: any,
+): Promise<UnrecreatedProperty[]> {
+  const unrecreated: UnrecreatedProperty[] = [];
+  let pending: [string, any, any][] = [];
+
+  for (const [name, prop] of Object.entries(derivedProperties)) {
+    const result = buildDerivedPropertyConfig(prop, clonedRelations, rules, sourceProperties);
+    if ("reason" in result) {
+      unrecreated.push({ name, type: prop.type, reason: result.reason });
+    } else {
+      pending.push([name, prop, result.config]);
+    }
+  }
+
+  const lastErrors = new Map<string, string>();
+  let progress = true;
+
+  while (pending.length > 0 && progress) {
+    progress = false;
+    const stillPending: [string, any, any][] = [];
+
+    for (const [name, prop, config] of pending) {
+      try {
+        await notion.databases.update({
+          database_id: targetDatabaseId,
+          properties: { [name]: config },
+        });
+        console.log(`🔧 Recreated ${prop.type} property: ${name}`);
+        progress = true;
+      } catch (error) {
+        lastErrors.set(name, error instanceof Error ? error.message : String(error));
+        stillPending.push([name, prop, config]);
+      }
+    }
+
+    pending = stillPending;
+  }
+
+  for (const [name, prop] of pending) {
+    console.error(`❌ Could not recreate ${prop.type} property "${name}": ${lastErrors.get(name)}`);
+    unrecreated.push({ name, type: prop.type, reason: lastErrors.get(name) || "Unknown error" });
+  }
+
+  return unrecreated;
+}
@@ -0,0 +1,56 @@
+export interface ErrorResponse {
+  error: string;
+  message?: string;
+  details?: string;
+}
+
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Map a clone error to the HTTP status and the error body returned to the caller
+export function getCloneErrorResponse(error: unknown): {
+  statusCode: number;
+  errorResponse: ErrorResponse;
+} {
+  let errorMessage = "Failed to clone database";
+  let statusCode = 500;
+
+  if (error instanceof Error) {
+    if (error.message.includes("environment variable")) {
+      errorMessage = "Server configuration error";
+      statusCode = 500;
+    } else if (error.message.includes("Invalid request option")) {
+      // Checked before the ID format: the request's own "format" option is no configuration error
+      errorMessage = "Invalid request options";
+      statusCode = 400;
+    } else if (error.message.includes("Invalid") && error.message.includes("format")) {
+      errorMessage = "Invalid database or page ID format in configuration";
+      statusCode = 500;
+    } else if (error.message.includes("is not on the allowlist")) {
+      errorMessage = "Source database is not allowed";
+      statusCode = 403;
+    } else if (error.message.includes("Source schema")) {
+      errorMessage = "Source schema is missing properties the clone depends on";
+      statusCode = 409;
+    } else if (error.message.includes("Could not find")) {
+      errorMessage = "Database or page not found. Check permissions and IDs in configuration.";
+      statusCode = 404;
+    } else if (error.message.includes("Unauthorized")) {
+      errorMessage = "Unauthorized. Check Notion token and permissions.";
+      statusCode = 401;
+    }
+  }
+
+  const errorResponse: ErrorResponse = {
+    error: errorMessage,
+    details:
+      process.env.NODE_ENV === "development"
+        ? error instanceof Error
+          ? error.message
+          : String(error)
+        : undefined,
+  };
+
+  return { statusCode, errorResponse };
+}
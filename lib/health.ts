@@ -0,0 +1,92 @@
+import { getErrorMessage } from "./errors.js";
+import { getDatabaseTitle, notion } from "./notion.js";
+import { type CloneProfile, DEFAULT_PROFILE_NAME, resolveCloneProfile } from "./profiles.js";
+import { type PropertyRulesConfig, loadPropertyRules } from "./property-rules.js";
+import { findSchemaProblems } from "./schema-drift.js";
+
+// One check of a deep health check, with how long it took
+export interface HealthCheck {
+  name: string;
+  ok: boolean;
+  latencyMs: number;
+  message?: string;
+}
+
+// Run one health check; an error fails it with the error's message
+async function timeHealthCheck(
+  name: string,
+  check: () => Promise<string | undefined>,
+): Promise<HealthCheck> {
+  const startedAt = Date.now();
+
+  try {
+    const message = await check();
+    return { name, ok: true, latencyMs: Date.now() - startedAt, message };
+  } catch (error) {
+    return { name, ok: false, latencyMs: Date.now() - startedAt, message: getErrorMessage(error) };
+  }
+}
+
+// Deep health check of a profile: the token, read access to the source database, access to the
+// parent page and the source schema. The parent page is only read unless checkWrite is set;
+// then a paragraph is appended under it and deleted again.
+export async function runHealthChecks(
+  profileName?: string,
+  checkWrite = false,
+): Promise<HealthCheck[]> {
+  let profile!: CloneProfile;
+  let rules!: PropertyRulesConfig;
+  let sourceDatabase: any;
+
+  const configuration = await timeHealthCheck("configuration", async () => {
+    profile = resolveCloneProfile(profileName);
+    rules = loadPropertyRules(profile.rules, profileName ?? DEFAULT_PROFILE_NAME);
+    return `Profile "${profileName ?? DEFAULT_PROFILE_NAME}"`;
+  });
+  if (!configuration.ok) {
+    return [configuration];
+  }
+
+  return [
+    configuration,
+    await timeHealthCheck("token", async () => {
+      const bot: any = await notion.users.me({});
+      return `Authenticated as "${bot.name ?? bot.id}"`;
+    }),
+    await timeHealthCheck("source_database", async () => {
+      sourceDatabase = await notion.databases.retrieve({ database_id: profile.sourceDatabaseId });
+      return `Can read "${getDatabaseTitle(sourceDatabase)}"`;
+    }),
+    await timeHealthCheck("parent_page", async () => {
+      // Notion cannot be asked about insert rights without writing, so a read-only integration
+      // passes the read check
+      if (!checkWrite) {
+        await notion.pages.retrieve({ page_id: profile.parentPageId });
+        return "Read access only: can read the parent page (add write=1 to check inserting)";
+      }
+
+      const { results } = await notion.blocks.children.append({
+        block_id: profile.parentPageId,
+        children: [
+          {
+            type: "paragraph",
+            paragraph: { rich_text: [{ type: "text", text: { content: "Health check" } }] },
+          },
+        ],
+      });
+      await notion.blocks.delete({ block_id: results[0].id });
+      return "Can insert content under the parent page";
+    }),
+    await timeHealthCheck("schema", async () => {
+      if (!sourceDatabase) {
+        throw new Error("Not checked: the source database could not be read");
+      }
+
+      const problems = findSchemaProblems(sourceDatabase.properties, rules);
+      if (problems.length > 0) {
+        throw new Error(problems.join("; "));
+      }
+      return "Hierarchy fields and prefixed properties found";
+    }),
+  ];
+}
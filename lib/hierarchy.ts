@@ -0,0 +1,236 @@
+import { getPageTitle } from "./notion.js";
+import type { CloneOptions } from "./options.js";
+import { type PropertyRulesConfig, getHierarchyFields } from "./property-rules.js";
+
+// What the orphan policy did to a page without a parent
+type OrphanOutcome = "skipped" | "empty" | "self" | "unsorted";
+
+export type OrphanPageCounts = { [outcome in OrphanOutcome]: number };
+
+// Test Suite value of pages without a parent under the "unsorted" orphan policy
+const UNSORTED_SUITE = "Unsorted";
+
+export interface HierarchyAnalysis {
+  titles: Map<string, string>; // source page ID -> page title
+  parentIdMap: Map<string, string>; // source child page ID -> source parent page ID
+  suitePaths: Map<string, string[]>; // source page ID -> ancestor titles, root suite first
+  issues: HierarchyIssues;
+}
+
+// Ambiguous hierarchy relations: cycles, broken before their first page in query order, and
+// pages with several parents, of which the first one found is used
+export interface HierarchyIssues {
+  cycles: { id: string; title: string }[][];
+  multiParentPages: { id: string; title: string; parents: { id: string; title: string }[] }[];
+}
+
+// Analyze hierarchy - find which pages are sub-items of others. Pages are matched by ID, so
+// items with the same title in different suites keep their own parents.
+export function analyzeHierarchy(allPages: any[], rules: PropertyRulesConfig): HierarchyAnalysis {
+  console.log("🔍 Analyzing hierarchy to populate Test Suite field...");
+  console.log(`🔍 Looking for hierarchy fields: ${getHierarchyFields(rules).join(", ")}`);
+
+  const pageIds = new Set(allPages.map((page) => page.id));
+  const parentCandidates = new Map<string, string[]>(); // child page ID -> parent page IDs
+
+  const addParent = (childId: string, parentId: string) => {
+    if (!pageIds.has(childId) || !pageIds.has(parentId)) {
+      return;
+    }
+    const parentIds = parentCandidates.get(childId) ?? [];
+    if (!parentIds.includes(parentId)) {
+      parentCandidates.set(childId, [...parentIds, parentId]);
+    }
+  };
+
+  for (const page of allPages) {
+    for (const fieldName of getHierarchyFields(rules)) {
+      const hierarchyProperty = page.properties?.[fieldName];
+      if (hierarchyProperty?.type !== "relation") {
+        continue;
+      }
+
+      for (const relatedItem of hierarchyProperty.relation ?? []) {
+        // Sub-items fields list the page's children, Parent item fields its parent
+        if (rules.hierarchy.childFields.includes(fieldName)) {
+          addParent(relatedItem.id, page.id);
+        }
+        if (rules.hierarchy.parentFields.includes(fieldName)) {
+          addParent(page.id, relatedItem.id);
+        }
+      }
+    }
+  }
+
+  const hierarchy = resolveHierarchy(allPages, parentCandidates);
+
+  console.log(`📊 Found ${hierarchy.parentIdMap.size} pages with parent relationships`);
+  if (hierarchy.parentIdMap.size > 0) {
+    console.log("📋 Hierarchy mapping:");
+    // Limit logs to prevent timeout
+    for (const [childId, parentId] of [...hierarchy.parentIdMap].slice(0, 10)) {
+      console.log(`   "${hierarchy.titles.get(childId)}" -> "${hierarchy.titles.get(parentId)}"`);
+    }
+    if (hierarchy.parentIdMap.size > 10) {
+      console.log(`   ... and ${hierarchy.parentIdMap.size - 10} more mappings`);
+    }
+  }
+
+  return hierarchy;
+}
+
+// Settle each page on one parent and break relation cycles, then work out the suite paths
+export function resolveHierarchy(
+  pages: any[],
+  parentCandidates: Map<string, string[]>,
+): HierarchyAnalysis {
+  const titles = new Map<string, string>(pages.map((page) => [page.id, getPageTitle(page)]));
+  const queryOrder = new Map<string, number>(pages.map((page, index) => [page.id, index]));
+  const toRef = (id: string) => ({ id, title: titles.get(id) ?? "" });
+  const parentIdMap = new Map<string, string>();
+  const issues: HierarchyIssues = { cycles: [], multiParentPages: [] };
+
+  for (const [childId, parentIds] of parentCandidates) {
+    parentIdMap.set(childId, parentIds[0]);
+    if (parentIds.length > 1) {
+      issues.multiParentPages.push({ ...toRef(childId), parents: parentIds.map(toRef) });
+      console.warn(
+        `⚠️ "${titles.get(childId)}" has ${parentIds.length} parents, using "${titles.get(parentIds[0])}"`,
+      );
+    }
+  }
+
+  // Walk up from every page; reaching a page of the current walk again closes a cycle
+  const finished = new Set<string>();
+  for (const page of pages) {
+    const walk: string[] = [];
+    let pageId: string | undefined = page.id;
+
+    while (pageId !== undefined && !finished.has(pageId) && !walk.includes(pageId)) {
+      walk.push(pageId);
+      pageId = parentIdMap.get(pageId);
+    }
+
+    if (pageId !== undefined && walk.includes(pageId)) {
+      const cycle = walk.slice(walk.indexOf(pageId));
+      const firstPageId = cycle.reduce((first, id) =>
+        queryOrder.get(id)! < queryOrder.get(first)! ? id : first,
+      );
+      parentIdMap.delete(firstPageId);
+      issues.cycles.push(cycle.map(toRef));
+      console.warn(
+        `⚠️ Relation cycle: ${cycle.map((id) => `"${titles.get(id)}"`).join(" -> ")}; "${titles.get(firstPageId)}" is cloned without a parent`,
+      );
+    }
+
+    for (const id of walk) {
+      finished.add(id);
+    }
+  }
+
+  return { titles, parentIdMap, suitePaths: buildSuitePaths(pages, parentIdMap), issues };
+}
+
+// Title of a page's parent, the value of its Test Suite column
+function getParentTitle(hierarchy: HierarchyAnalysis, pageId: string): string | undefined {
+  const parentId = hierarchy.parentIdMap.get(pageId);
+  return parentId === undefined ? undefined : hierarchy.titles.get(parentId);
+}
+
+// Ancestor titles of every page with a parent, root suite first, found by following the
+// parent page IDs. A cycle in the relations ends the path before it repeats a page.
+export function buildSuitePaths(
+  pages: any[],
+  parentIdMap: Map<string, string>,
+): Map<string, string[]> {
+  const titles = new Map(pages.map((page) => [page.id, getPageTitle(page)]));
+  const suitePaths = new Map<string, string[]>();
+
+  for (const pageId of parentIdMap.keys()) {
+    const path: string[] = [];
+    const visited = new Set([pageId]);
+    let parentId = parentIdMap.get(pageId);
+
+    while (parentId && !visited.has(parentId)) {
+      visited.add(parentId);
+      path.unshift(titles.get(parentId) ?? "");
+      parentId = parentIdMap.get(parentId);
+    }
+    suitePaths.set(pageId, path);
+  }
+
+  return suitePaths;
+}
+
+// What the orphan policy does to a page without a parent; nested mode always keeps root pages
+function getOrphanOutcome(
+  page: any,
+  hierarchy: HierarchyAnalysis,
+  options: CloneOptions,
+): OrphanOutcome | undefined {
+  if (hierarchy.parentIdMap.has(page.id)) {
+    return undefined;
+  }
+  if (options.orphanPolicy === "skip") {
+    return options.hierarchyMode === "flat" ? "skipped" : "empty";
+  }
+  return options.orphanPolicy;
+}
+
+export function isSkippedOrphan(
+  page: any,
+  hierarchy: HierarchyAnalysis,
+  options: CloneOptions,
+): boolean {
+  return getOrphanOutcome(page, hierarchy, options) === "skipped";
+}
+
+// Test Suite value of a page: its parent's title, or the value the orphan policy gives it
+export function getSuiteTitle(
+  page: any,
+  hierarchy: HierarchyAnalysis,
+  options: CloneOptions,
+): string | undefined {
+  switch (getOrphanOutcome(page, hierarchy, options)) {
+    case undefined:
+      return getParentTitle(hierarchy, page.id);
+    case "self":
+      return getPageTitle(page);
+    case "unsorted":
+      return UNSORTED_SUITE;
+    default:
+      return undefined;
+  }
+}
+
+export function countOrphanPages(
+  pages: any[],
+  hierarchy: HierarchyAnalysis,
+  options: CloneOptions,
+): OrphanPageCounts {
+  const counts: OrphanPageCounts = { skipped: 0, empty: 0, self: 0, unsorted: 0 };
+
+  for (const page of pages) {
+    const outcome = getOrphanOutcome(page, hierarchy, options);
+    if (outcome) {
+      counts[outcome]++;
+    }
+  }
+
+  return counts;
+}
+
+// Suite path of a page: its ancestors' titles, or for a root page the suite the orphan policy
+// gives it, so the suite path columns agree with its Test Suite
+export function getSuitePath(
+  page: any,
+  hierarchy: HierarchyAnalysis,
+  options: CloneOptions,
+): string[] {
+  if (hierarchy.parentIdMap.has(page.id)) {
+    return hierarchy.suitePaths.get(page.id) ?? [];
+  }
+
+  const suiteTitle = getSuiteTitle(page, hierarchy, options);
+  return suiteTitle ? [suiteTitle] : [];
+}
@@ -0,0 +1,199 @@
+import { randomUUID } from "node:crypto";
+import { type CloneCheckpoint, type CloneResult, runClone } from "./clone.js";
+import { type ErrorResponse, getCloneErrorResponse } from "./errors.js";
+import { notion } from "./notion.js";
+import type { ClonePhase } from "./report.js";
+import { type CloneRequest, prepareCloneRequest } from "./request.js";
+import { type JobStore, getSnapshotStore } from "./stores.js";
+
+// State of an asynchronous clone, as reported by GET /api/jobs/:id
+export interface CloneJob {
+  id: string;
+  status: "queued" | "running" | "succeeded" | "partial" | "failed";
+  phase: ClonePhase;
+  profile: string;
+  pagesDone: number;
+  pagesTotal: number;
+  failedPagesCount: number;
+  createdAt: string;
+  updatedAt: string;
+  requestBody: any; // request the job was started with, reused on resume; without a snapshot
+  checkpoint?: CloneCheckpoint;
+  result?: CloneResult;
+  error?: ErrorResponse;
+}
+
+export interface JobAcceptedResponse {
+  success: true;
+  jobId: string;
+  status: CloneJob["status"];
+  statusUrl: string;
+}
+
+function createCloneJob(profileName: string, requestBody: any): CloneJob {
+  const now = new Date().toISOString();
+
+  return {
+    id: randomUUID(),
+    status: "queued",
+    phase: "queued",
+    profile: profileName,
+    pagesDone: 0,
+    pagesTotal: 0,
+    failedPagesCount: 0,
+    createdAt: now,
+    updatedAt: now,
+    requestBody,
+  };
+}
+
+// A running job that has not saved progress for longer than maxDuration in vercel.json
+// is treated as dead and may be resumed
+const RESUME_STALE_AFTER_MS = 90 * 1000;
+
+// Whether a run needs a job: async runs report through it, and clones (restores included)
+// keep their checkpoints on it. Synchronous dry runs, syncs and exports run without one.
+function needsCloneJob(request: CloneRequest): boolean {
+  const { async, mode, dryRun } = request.options;
+  return async || ((mode === "clone" || mode === "restore") && !dryRun);
+}
+
+// Start a new clone job when the run needs one, or reopen the job named by "resume" with its
+// original options
+export async function openCloneJob(
+  body: any,
+  store: JobStore,
+): Promise<{ job?: CloneJob; request: CloneRequest }> {
+  const resumeJobId = body?.resume;
+
+  if (resumeJobId === undefined) {
+    const request = prepareCloneRequest(body);
+    if (!needsCloneJob(request)) {
+      return { request };
+    }
+
+    // A restore's snapshot is kept apart from the job. If the store cannot hold it, the restore
+    // still runs but cannot be resumed.
+    const { snapshot, ...requestBody } = body ?? {};
+    const job = createCloneJob(request.profileName, requestBody);
+    if (request.snapshot) {
+      try {
+        await getSnapshotStore().save(job.id, request.snapshot);
+      } catch (error) {
+        console.error(`❌ Failed to save the snapshot of job ${job.id}:`, error);
+      }
+    }
+    await store.save(job);
+    return { job, request };
+  }
+
+  if (typeof resumeJobId !== "string" || !/^[0-9a-f-]{36}$/i.test(resumeJobId)) {
+    throw new Error(`Invalid request option resume: "${resumeJobId}"`);
+  }
+
+  const job = await store.get(resumeJobId);
+
+  if (!job) {
+    throw new Error(`Invalid request option resume: no clone job "${resumeJobId}"`);
+  }
+  if (job.status === "succeeded") {
+    throw new Error(`Invalid request option resume: job "${resumeJobId}" already completed`);
+  }
+  if (!job.checkpoint) {
+    throw new Error(`Invalid request option resume: job "${resumeJobId}" has no checkpoint`);
+  }
+  if (job.status === "running" && Date.now() - Date.parse(job.updatedAt) < RESUME_STALE_AFTER_MS) {
+    throw new Error(`Invalid request option resume: job "${resumeJobId}" is still running`);
+  }
+
+  const snapshot =
+    job.requestBody.mode === "restore" ? await getSnapshotStore().get(job.id) : undefined;
+  if (job.requestBody.mode === "restore" && !snapshot) {
+    throw new Error(`Invalid request option resume: job "${resumeJobId}" has no saved snapshot`);
+  }
+
+  const request = prepareCloneRequest({
+    ...job.requestBody,
+    snapshot,
+    async: body.async ?? false,
+  });
+  console.log(`♻️ Resuming clone job ${job.id}`);
+  return { job, request };
+}
+
+// Job status of a finished run: a run with failed or incomplete pages is "partial", one above
+// the failure threshold is "failed" but keeps its result
+function getResultStatus(result: CloneResult): CloneJob["status"] {
+  return "report" in result && result.report.status !== "succeeded"
+    ? result.report.status
+    : "succeeded";
+}
+
+// HTTP status of a finished run: 207 for a partial run, 422 for a run above the failure
+// threshold (the request was carried out, but its pages could not be cloned)
+export function getResultStatusCode(result: CloneResult): number {
+  const status = getResultStatus(result);
+  return status === "partial" ? 207 : status === "failed" ? 422 : 200;
+}
+
+// Run a clone without a job: its result is only returned
+export async function runUntrackedClone(request: CloneRequest): Promise<CloneResult> {
+  return notion.trackRun(() => runClone(request));
+}
+
+// Run a clone as a job, saving its progress, checkpoints and final result to the job store.
+// A failed clone is recorded on the job and rethrown.
+export async function runCloneJob(
+  job: CloneJob,
+  request: CloneRequest,
+  store: JobStore,
+): Promise<CloneResult> {
+  const update = async (changes: Partial<CloneJob>) => {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    try {
+      await store.save(job);
+    } catch (error) {
+      console.error(`❌ Failed to save job ${job.id}:`, error);
+    }
+  };
+
+  console.log(`🧵 Running clone job ${job.id}`);
+
+  try {
+    await update({ status: "running", error: undefined });
+    const result = {
+      ...(await notion.trackRun(() =>
+        runClone(request, {
+          onProgress: (progress) => update(progress),
+          resumeFrom: job.checkpoint,
+          onCheckpoint: (checkpoint) => update({ checkpoint }),
+        }),
+      )),
+      jobId: job.id,
+    };
+    const status = getResultStatus(result);
+
+    if (status === "failed" && "report" in result) {
+      const { failedPages, attemptedPagesCount, failureThreshold } = result.report;
+      await update({
+        status,
+        phase: "failed",
+        result,
+        error: {
+          error: "Too many pages failed",
+          message: `${failedPages.length} of ${attemptedPagesCount} pages failed, above the failure threshold of ${failureThreshold * 100}%`,
+        },
+      });
+    } else {
+      await update({ status, phase: "completed", result });
+    }
+    return result;
+  } catch (error) {
+    await update({
+      status: "failed",
+      phase: "failed",
+      error: getCloneErrorResponse(error).errorResponse,
+    });
+    throw error;
+  }
+}
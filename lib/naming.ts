@@ -0,0 +1,230 @@
+import type { CloneProfile } from "./profiles.js";
+import type { CloneRequest } from "./request.js";
+import { listChildDatabases } from "./retention.js";
+import { getCloneRegistryStore } from "./stores.js";
+
+// Everything a clone name is rendered from, apart from the values only known during the run
+export interface NamingOptions {
+  template: string;
+  date: Date;
+  locale: string;
+  timeZone: string;
+  fields: { [name: string]: string };
+}
+
+// Values a name template is filled with; tokens without a value are kept as they are
+interface NameContext {
+  date: Date;
+  locale: string;
+  timeZone: string;
+  sourceTitle?: string;
+  sequence?: number;
+  pagesCount?: number;
+  fields?: { [name: string]: string };
+}
+
+// Defaults for the {date} token of clone names: day.month.year, hours:minutes in CET
+const DEFAULT_NAME_LOCALE = "ru-RU";
+const DEFAULT_NAME_TIME_ZONE = "Europe/Belgrade";
+
+// {name} or {name:argument}
+export const NAME_TOKEN_PATTERN = /\{(\w+)(?::([^}]*))?\}/g;
+
+// Fill the {date} tokens of a name template with the date in the default locale (CET)
+export function formatDatabaseName(template: string, date: Date): string {
+  return renderDatabaseName(template, {
+    date,
+    locale: DEFAULT_NAME_LOCALE,
+    timeZone: DEFAULT_NAME_TIME_ZONE,
+  });
+}
+
+// Format a date with the yyyy, yy, MM, dd, HH, mm and ss placeholders in a time zone
+export function formatDatePattern(date: Date, pattern: string, timeZone: string): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-GB", {
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+      timeZone,
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+  const values: { [placeholder: string]: string } = {
+    yyyy: parts.year,
+    yy: parts.year.slice(-2),
+    MM: parts.month,
+    dd: parts.day,
+    HH: parts.hour,
+    mm: parts.minute,
+    ss: parts.second,
+  };
+
+  return pattern.replace(/yyyy|yy|MM|dd|HH|mm|ss/g, (placeholder) => values[placeholder]);
+}
+
+function formatNameDate(date: Date, argument: string | undefined, context: NameContext): string {
+  if (argument) {
+    return formatDatePattern(date, argument, context.timeZone);
+  }
+
+  return date.toLocaleDateString(context.locale, {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: context.timeZone,
+  });
+}
+
+// Fill a name template: {date}, {date:yyyy-MM-dd}, {source}, {seq}, {pages} and {field:name}.
+// Unknown tokens and tokens without a value are kept as they are.
+export function renderDatabaseName(template: string, context: NameContext): string {
+  return template.replace(NAME_TOKEN_PATTERN, (token, name: string, argument?: string) => {
+    switch (name) {
+      case "date":
+        return formatNameDate(context.date, argument, context);
+      case "source":
+        return context.sourceTitle ?? token;
+      case "seq":
+        return context.sequence?.toString() ?? token;
+      case "pages":
+        return context.pagesCount?.toString() ?? token;
+      case "field":
+        return argument !== undefined && context.fields && Object.hasOwn(context.fields, argument)
+          ? context.fields[argument]
+          : token;
+      default:
+        return token;
+    }
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Match the names a template produces, with or without a " (2)" suffix; {seq} is captured.
+// {source} and {field:name} only match the given values, so the clones of another source or
+// release do not match; without a value they match any text.
+export function getCloneNamePattern(
+  template: string,
+  locale = DEFAULT_NAME_LOCALE,
+  timeZone = DEFAULT_NAME_TIME_ZONE,
+  values: Pick<NameContext, "sourceTitle" | "fields"> = {},
+): RegExp {
+  const context = { date: new Date(Date.UTC(2000, 0, 1)), locale, timeZone };
+  let pattern = "";
+  let lastIndex = 0;
+  let hasSequenceGroup = false;
+
+  for (const match of template.matchAll(NAME_TOKEN_PATTERN)) {
+    const [token, name, argument] = match;
+    pattern += escapeRegExp(template.slice(lastIndex, match.index));
+    lastIndex = (match.index ?? 0) + token.length;
+
+    if (name === "date") {
+      pattern += escapeRegExp(formatNameDate(context.date, argument, context)).replace(
+        /\d+/g,
+        "\\d+",
+      );
+    } else if (name === "seq") {
+      pattern += hasSequenceGroup ? "\\d+" : "(?<seq>\\d+)";
+      hasSequenceGroup = true;
+    } else if (name === "pages") {
+      pattern += "\\d+";
+    } else if (name === "source") {
+      pattern += values.sourceTitle !== undefined ? escapeRegExp(values.sourceTitle) : ".+?";
+    } else if (name === "field") {
+      pattern +=
+        argument !== undefined && values.fields && Object.hasOwn(values.fields, argument)
+          ? escapeRegExp(values.fields[argument])
+          : ".+?";
+    } else {
+      pattern += escapeRegExp(token);
+    }
+  }
+  pattern += escapeRegExp(template.slice(lastIndex));
+
+  return new RegExp(`^${pattern}(?: \\(\\d+\\))?$`);
+}
+
+// Next sequence number of a profile: one more than the highest found in the names of its
+// earlier clones, or 1
+export function getNextSequence(names: string[], pattern: RegExp): number {
+  let highest = 0;
+  for (const name of names) {
+    const sequence = Number(name.match(pattern)?.groups?.seq ?? 0);
+    highest = Math.max(highest, sequence);
+  }
+  return highest + 1;
+}
+
+// Add " (2)", " (3)", ... to a name another database under the parent already has
+export function dedupeDatabaseName(name: string, existingNames: string[]): string {
+  const taken = new Set(existingNames);
+  let candidate = name;
+  for (let suffix = 2; taken.has(candidate); suffix++) {
+    candidate = `${name} (${suffix})`;
+  }
+  return candidate;
+}
+
+// Resolve the name locale and time zone of a profile, falling back to NAME_LOCALE and
+// NAME_TIME_ZONE, and check that Intl supports them
+export function resolveNameFormat(profile: CloneProfile): { locale: string; timeZone: string } {
+  const locale = profile.nameLocale ?? process.env.NAME_LOCALE ?? DEFAULT_NAME_LOCALE;
+  const timeZone = profile.nameTimeZone ?? process.env.NAME_TIME_ZONE ?? DEFAULT_NAME_TIME_ZONE;
+
+  try {
+    new Intl.DateTimeFormat(locale, { timeZone });
+  } catch {
+    throw new Error(
+      `Invalid name locale "${locale}" or time zone "${timeZone}" (profile or NAME_LOCALE / NAME_TIME_ZONE environment variable)`,
+    );
+  }
+
+  return { locale, timeZone };
+}
+
+// Pattern of the names a request's template produces for a source, used to find the profile's
+// clones from before it had a clone registry
+export function getProfileNamePattern(request: CloneRequest, sourceTitle: string): RegExp {
+  const { naming } = request;
+  return getCloneNamePattern(naming.template, naming.locale, naming.timeZone, {
+    sourceTitle,
+    fields: naming.fields,
+  });
+}
+
+// Render the name of a new clone. {seq} continues from the counter in the profile's clone
+// registry; a profile without one yet continues from the names of its earlier clones under the
+// parent. A name another database there already has gets a suffix.
+export async function resolveDatabaseName(
+  request: CloneRequest,
+  sourceTitle: string,
+  pagesCount: number,
+): Promise<{ name: string; sequence: number }> {
+  const { naming } = request;
+  const names = (await listChildDatabases(request.profile.parentPageId)).map(
+    (database) => database.title,
+  );
+  const registry = await getCloneRegistryStore().get(request.profileName);
+  const sequence = registry
+    ? registry.sequence + 1
+    : getNextSequence(names, getProfileNamePattern(request, sourceTitle));
+  const name = renderDatabaseName(naming.template, {
+    ...naming,
+    sourceTitle,
+    pagesCount,
+    sequence,
+  });
+
+  return { name: dedupeDatabaseName(name, names), sequence };
+}
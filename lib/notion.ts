@@ -0,0 +1,234 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Client, RequestTimeoutError } from "@notionhq/client";
+
+// Process 10 pages at once to avoid API limits
+export const BATCH_SIZE = 10;
+
+interface ThrottleOptions {
+  requestsPerSecond?: number;
+  maxRetries?: number;
+  baseRetryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  maxConcurrency?: number;
+}
+
+interface ThrottleStats {
+  retriedRequestsCount: number;
+  rateLimitedCount: number;
+}
+
+// Transient errors worth retrying: rate limits, server errors, timeouts and dropped connections
+const RETRYABLE_STATUS_CODES = new Set([409, 429, 500, 502, 503, 504]);
+const RETRYABLE_NETWORK_ERRORS = new Set(["ECONNRESET", "ETIMEDOUT", "EPIPE", "EAI_AGAIN"]);
+
+// Failures that prove a request was never applied, so even writes can be sent again
+const UNAPPLIED_STATUS_CODES = new Set([409, 429]);
+const UNAPPLIED_NETWORK_ERRORS = new Set(["ECONNREFUSED", "EAI_AGAIN"]);
+
+// Number of successful requests in a row before one more request may run in parallel
+const CONCURRENCY_RAISE_AFTER = 20;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Whether sending a request twice has the same effect as sending it once. Creating pages and
+// databases and appending blocks do not: a write that timed out may still have been applied.
+function isIdempotentRequest(method: string, path: string): boolean {
+  if (method === "post") {
+    return path.endsWith("/query") || path === "search";
+  }
+  if (method === "patch") {
+    return !path.endsWith("/children");
+  }
+  return true;
+}
+
+// Notion client that spaces requests to the rate limit, retries transient failures with
+// backoff and adapts its concurrency to throttling
+export class ThrottledClient extends Client {
+  // Totals over the client's lifetime; trackRun() counts a single run
+  readonly stats: ThrottleStats = { retriedRequestsCount: 0, rateLimitedCount: 0 };
+  private readonly runStats = new AsyncLocalStorage<ThrottleStats>();
+
+  private readonly intervalMs: number;
+  private readonly maxRetries: number;
+  private readonly baseRetryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly maxConcurrency: number;
+  private concurrency: number;
+  private activeRequests = 0;
+  private successStreak = 0;
+  private nextRequestAt = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(options: ConstructorParameters<typeof Client>[0] & ThrottleOptions = {}) {
+    super(options);
+    this.intervalMs = 1000 / (options.requestsPerSecond ?? 3);
+    this.maxRetries = options.maxRetries ?? 5;
+    this.baseRetryDelayMs = options.baseRetryDelayMs ?? 500;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 30000;
+    this.maxConcurrency = options.maxConcurrency ?? BATCH_SIZE;
+    this.concurrency = Math.min(3, this.maxConcurrency);
+  }
+
+  override async request<ResponseBody>(
+    args: Parameters<Client["request"]>[0],
+  ): Promise<ResponseBody> {
+    const idempotent = isIdempotentRequest(args.method, args.path);
+
+    for (let attempt = 0; ; attempt++) {
+      let retryDelay: number;
+
+      await this.acquire();
+      try {
+        const response = await super.request<ResponseBody>(args);
+        this.onSuccess();
+        return response;
+      } catch (error) {
+        const delay = this.getRetryDelay(error, attempt, idempotent);
+        if (delay === undefined) {
+          throw error;
+        }
+        retryDelay = delay;
+      } finally {
+        this.release();
+      }
+
+      // The backoff happens outside the parallel slot, so other requests go ahead meanwhile
+      this.count("retriedRequestsCount");
+      console.log(
+        `⏳ Retrying ${args.method.toUpperCase()} ${args.path} in ${retryDelay}ms (attempt ${attempt + 1}/${this.maxRetries})`,
+      );
+      await sleep(retryDelay);
+    }
+  }
+
+  // Run fn with its own retry and rate limit counts, which getRunStats() reads inside it
+  trackRun<T>(fn: () => Promise<T>): Promise<T> {
+    return this.runStats.run({ retriedRequestsCount: 0, rateLimitedCount: 0 }, fn);
+  }
+
+  // Counts of the run tracked by trackRun(), or the totals outside of one
+  getRunStats(): ThrottleStats {
+    return { ...(this.runStats.getStore() ?? this.stats) };
+  }
+
+  private count(stat: keyof ThrottleStats): void {
+    this.stats[stat]++;
+    const runStats = this.runStats.getStore();
+    if (runStats) {
+      runStats[stat]++;
+    }
+  }
+
+  // Delay before the next attempt, or undefined when the error is final
+  private getRetryDelay(error: unknown, attempt: number, idempotent: boolean): number | undefined {
+    if (attempt >= this.maxRetries) {
+      return undefined;
+    }
+
+    const status = (error as any)?.status;
+    if (
+      !idempotent &&
+      !UNAPPLIED_STATUS_CODES.has(status) &&
+      !UNAPPLIED_NETWORK_ERRORS.has((error as any)?.code)
+    ) {
+      return undefined;
+    }
+
+    if (status === 429) {
+      this.onRateLimited();
+      const retryAfter = (error as any).headers?.get?.("retry-after");
+      const retryAfterSeconds = Number(retryAfter);
+      if (retryAfter && Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+        return retryAfterSeconds * 1000 + Math.round(Math.random() * this.baseRetryDelayMs);
+      }
+    } else if (
+      !RETRYABLE_STATUS_CODES.has(status) &&
+      !RequestTimeoutError.isRequestTimeoutError(error) &&
+      !RETRYABLE_NETWORK_ERRORS.has((error as any)?.code)
+    ) {
+      return undefined;
+    }
+
+    // Full jitter: anywhere between 0 and the exponential backoff ceiling
+    const ceiling = Math.min(this.maxRetryDelayMs, this.baseRetryDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  // Wait for a free parallel slot, then for the next slot of the average request rate
+  private async acquire(): Promise<void> {
+    while (this.activeRequests >= this.concurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    this.activeRequests++;
+
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextRequestAt);
+    this.nextRequestAt = startAt + this.intervalMs;
+    if (startAt > now) {
+      await sleep(startAt - now);
+    }
+  }
+
+  private release(): void {
+    this.activeRequests--;
+    this.waiting.shift()?.();
+  }
+
+  private onSuccess(): void {
+    this.successStreak++;
+    if (this.successStreak >= CONCURRENCY_RAISE_AFTER && this.concurrency < this.maxConcurrency) {
+      this.concurrency++;
+      this.successStreak = 0;
+    }
+  }
+
+  private onRateLimited(): void {
+    this.count("rateLimitedCount");
+    this.successStreak = 0;
+    this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+  }
+}
+
+export const notion = new ThrottledClient({
+  auth: process.env.NOTION_TOKEN,
+  requestsPerSecond: Number(process.env.NOTION_REQUESTS_PER_SECOND) || undefined,
+  maxRetries: process.env.NOTION_MAX_RETRIES ? Number(process.env.NOTION_MAX_RETRIES) : undefined,
+});
+
+// Validate ID format (32 characters, alphanumeric + hyphens)
+export function validateNotionId(id: string, idType: string): void {
+  const cleanId = id.replace(/-/g, "");
+  if (cleanId.length !== 32 || !/^[a-f0-9]+$/i.test(cleanId)) {
+    throw new Error(`Invalid ${idType} format. Must be 32 characters.`);
+  }
+}
+
+// Helper function to get page title from properties
+export function getPageTitle(page: any): string {
+  const properties = page.properties;
+
+  // Look for title property (usually "Name" but can vary)
+  for (const [, prop] of Object.entries(properties)) {
+    if ((prop as any).type === "title" && (prop as any).title && (prop as any).title.length > 0) {
+      return (prop as any).title[0].plain_text || "Untitled";
+    }
+  }
+
+  return "Untitled";
+}
+
+// Plain-text title of a database
+export function getDatabaseTitle(database: any): string {
+  return (database.title ?? []).map((item: any) => item.plain_text).join("");
+}
+
+// Notion ID without hyphens and in lower case, for comparing IDs and keying maps by them
+export function normalizeNotionId(id: string): string {
+  return id.replace(/-/g, "").toLowerCase();
+}
+
+// Compare Notion IDs regardless of hyphenation and case
+export function isSameNotionId(a: string, b: string): boolean {
+  return normalizeNotionId(a) === normalizeNotionId(b);
+}
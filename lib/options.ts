@@ -0,0 +1,269 @@
+import type { CloneProfile } from "./profiles.js";
+
+// "flat" copies the tree as a list with a Test Suite column (STEP 1 only),
+// "nested" additionally rebuilds the Sub-items hierarchy in the clone (STEP 2)
+export type HierarchyMode = "flat" | "nested";
+
+// What happens to pages without a parent: left out of the clone ("skip"), or cloned with an
+// empty suite, with their own title as the suite or with the UNSORTED_SUITE value
+type OrphanPolicy = "skip" | "empty" | "self" | "unsorted";
+
+// "clone" creates a new database, "sync" updates the profile's existing clone, "export" returns
+// a snapshot file and "restore" creates a database from a snapshot
+type CloneMode = "clone" | "sync" | "export" | "restore";
+
+export type ExportFormat = "json" | "csv" | "markdown";
+
+export const EXPORT_FORMATS: { [format: string]: { extension: string; contentType: string } } = {
+  json: { extension: "json", contentType: "application/json; charset=utf-8" },
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+};
+
+// What happens to a property's value when a page is cloned: keep the source value,
+// clear it, or set it to a fixed value (for example to start a fresh test run)
+export type ValuePolicy = { policy: "keep" } | { policy: "clear" } | { policy: "set"; value: any };
+
+export interface CloneOptions {
+  mode: CloneMode;
+  format: ExportFormat;
+  hierarchyMode: HierarchyMode;
+  orphanPolicy: OrphanPolicy;
+  copyContent: boolean;
+  valuePolicies: { [property: string]: ValuePolicy };
+  filter?: any;
+  sorts?: any[];
+  filterName?: string;
+  dryRun: boolean;
+  async: boolean;
+  nameFields: { [name: string]: string };
+  failureThreshold: number; // share of failed pages (0-1) above which the run fails
+  schemaDriftPolicy: SchemaDriftPolicy;
+}
+
+// What a run does when a source property the clone depends on is gone since the last run
+type SchemaDriftPolicy = "warn" | "fail";
+
+// Notion query filter and sorts selecting the pages to clone
+export interface SourceQuery {
+  filter?: any;
+  sorts?: any[];
+}
+
+// Option defaults set through environment variables
+type OptionDefaults = Pick<
+  CloneOptions,
+  "hierarchyMode" | "orphanPolicy" | "copyContent" | "failureThreshold" | "schemaDriftPolicy"
+>;
+
+// Read the option defaults from the environment. These are server configuration, so a bad value
+// names its variable (a 500) instead of failing as a bad request option.
+function readOptionDefaults(): OptionDefaults {
+  const hierarchyMode = process.env.HIERARCHY_MODE || "flat";
+
+  if (hierarchyMode !== "flat" && hierarchyMode !== "nested") {
+    throw new Error('HIERARCHY_MODE environment variable must be "flat" or "nested"');
+  }
+
+  const orphanPolicy = process.env.ORPHAN_POLICY || "skip";
+
+  if (!["skip", "empty", "self", "unsorted"].includes(orphanPolicy)) {
+    throw new Error(
+      'ORPHAN_POLICY environment variable must be "skip", "empty", "self" or "unsorted"',
+    );
+  }
+
+  const failureThreshold = process.env.FAILURE_THRESHOLD
+    ? Number(process.env.FAILURE_THRESHOLD)
+    : 1;
+
+  if (!(failureThreshold >= 0 && failureThreshold <= 1)) {
+    throw new Error("FAILURE_THRESHOLD environment variable must be a number between 0 and 1");
+  }
+
+  const schemaDriftPolicy = process.env.SCHEMA_DRIFT_POLICY || "warn";
+
+  if (schemaDriftPolicy !== "warn" && schemaDriftPolicy !== "fail") {
+    throw new Error('SCHEMA_DRIFT_POLICY environment variable must be "warn" or "fail"');
+  }
+
+  return {
+    hierarchyMode,
+    orphanPolicy: orphanPolicy as OrphanPolicy,
+    copyContent: process.env.COPY_PAGE_CONTENT === "true",
+    failureThreshold,
+    schemaDriftPolicy,
+  };
+}
+
+// Read per-run options from the request body, falling back to environment defaults
+export function parseCloneOptions(body: any): CloneOptions {
+  const defaults = readOptionDefaults();
+  const mode = body?.mode ?? "clone";
+
+  if (!["clone", "sync", "export", "restore"].includes(mode)) {
+    throw new Error(`Invalid request option mode: "${mode}"`);
+  }
+
+  const hierarchyMode = body?.hierarchyMode ?? defaults.hierarchyMode;
+
+  if (hierarchyMode !== "flat" && hierarchyMode !== "nested") {
+    throw new Error(`Invalid request option hierarchyMode: "${hierarchyMode}"`);
+  }
+
+  const orphanPolicy = body?.orphanPolicy ?? defaults.orphanPolicy;
+
+  if (!["skip", "empty", "self", "unsorted"].includes(orphanPolicy)) {
+    throw new Error(`Invalid request option orphanPolicy: "${orphanPolicy}"`);
+  }
+
+  const copyContent = body?.copyContent ?? defaults.copyContent;
+
+  if (typeof copyContent !== "boolean") {
+    throw new Error(`Invalid request option copyContent: "${copyContent}"`);
+  }
+
+  const valuePolicies = parseValuePolicies(body?.valuePolicies ?? {});
+
+  const { filter, sorts, filterName } = body ?? {};
+
+  if (filter !== undefined && (typeof filter !== "object" || filter === null)) {
+    throw new Error("Invalid request option filter: must be a Notion filter object");
+  }
+
+  if (sorts !== undefined && !Array.isArray(sorts)) {
+    throw new Error("Invalid request option sorts: must be an array");
+  }
+
+  if (filterName !== undefined && typeof filterName !== "string") {
+    throw new Error("Invalid request option filterName: must be a string");
+  }
+
+  const dryRun = body?.dryRun ?? false;
+
+  if (typeof dryRun !== "boolean") {
+    throw new Error(`Invalid request option dryRun: "${dryRun}"`);
+  }
+
+  if (dryRun && mode !== "clone" && mode !== "restore") {
+    throw new Error(`Invalid request option dryRun: not supported in ${mode} mode`);
+  }
+
+  const format = body?.format ?? "json";
+
+  if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+    throw new Error(`Invalid request option format: "${format}"`);
+  }
+
+  const runAsync = body?.async ?? false;
+
+  if (typeof runAsync !== "boolean") {
+    throw new Error(`Invalid request option async: "${runAsync}"`);
+  }
+
+  // The export file is the response; it is not kept in the job store for later
+  if (runAsync && mode === "export") {
+    throw new Error("Invalid request option async: not supported in export mode");
+  }
+
+  const nameFields = parseNameFields(body?.nameFields ?? {});
+
+  const failureThreshold = body?.failureThreshold ?? defaults.failureThreshold;
+
+  if (typeof failureThreshold !== "number" || !(failureThreshold >= 0 && failureThreshold <= 1)) {
+    throw new Error(
+      `Invalid request option failureThreshold: "${failureThreshold}" must be between 0 and 1`,
+    );
+  }
+
+  const schemaDriftPolicy = body?.schemaDriftPolicy ?? defaults.schemaDriftPolicy;
+
+  if (schemaDriftPolicy !== "warn" && schemaDriftPolicy !== "fail") {
+    throw new Error(`Invalid request option schemaDriftPolicy: "${schemaDriftPolicy}"`);
+  }
+
+  return {
+    mode,
+    format,
+    hierarchyMode,
+    // A restore keeps every page of the snapshot
+    orphanPolicy: mode === "restore" ? "empty" : orphanPolicy,
+    // Snapshots hold page properties only, so a restore has no page content to copy
+    copyContent: copyContent && mode !== "restore",
+    valuePolicies,
+    filter,
+    sorts,
+    filterName,
+    dryRun,
+    async: runAsync,
+    nameFields,
+    failureThreshold,
+    schemaDriftPolicy,
+  };
+}
+
+// Custom values for the {field:name} tokens of the name template: strings or numbers
+function parseNameFields(rawFields: any): { [name: string]: string } {
+  if (typeof rawFields !== "object" || rawFields === null || Array.isArray(rawFields)) {
+    throw new Error("Invalid request option nameFields: must be an object");
+  }
+
+  const nameFields: { [name: string]: string } = {};
+
+  for (const [name, value] of Object.entries(rawFields)) {
+    if (typeof value !== "string" && typeof value !== "number") {
+      throw new Error(`Invalid request option nameFields: "${name}" must be a string or number`);
+    }
+    nameFields[name] = String(value);
+  }
+
+  return nameFields;
+}
+
+// Resolve the query selecting the pages to clone: an explicit filter and sorts, or a named
+// filter from the profile or NAMED_FILTERS (JSON). No filter clones every page.
+export function resolveSourceQuery(options: CloneOptions, profile: CloneProfile): SourceQuery {
+  if (options.filterName === undefined) {
+    return { filter: options.filter, sorts: options.sorts };
+  }
+
+  let namedFilters: { [name: string]: SourceQuery } = {};
+  if (process.env.NAMED_FILTERS) {
+    try {
+      namedFilters = JSON.parse(process.env.NAMED_FILTERS);
+    } catch {
+      throw new Error("NAMED_FILTERS environment variable contains invalid JSON");
+    }
+  }
+  namedFilters = { ...namedFilters, ...profile.filters };
+
+  if (!Object.hasOwn(namedFilters, options.filterName)) {
+    throw new Error(`Invalid request option filterName: unknown filter "${options.filterName}"`);
+  }
+
+  const namedFilter = namedFilters[options.filterName];
+  return { filter: namedFilter.filter, sorts: options.sorts ?? namedFilter.sorts };
+}
+
+// Accept "keep" / "clear" shorthands and { policy: "set", value } per property
+function parseValuePolicies(rawPolicies: any): { [property: string]: ValuePolicy } {
+  if (typeof rawPolicies !== "object" || rawPolicies === null || Array.isArray(rawPolicies)) {
+    throw new Error("Invalid request option valuePolicies: must be an object");
+  }
+
+  const valuePolicies: { [property: string]: ValuePolicy } = {};
+
+  for (const [property, rawPolicy] of Object.entries(rawPolicies)) {
+    const policy: any = typeof rawPolicy === "string" ? { policy: rawPolicy } : rawPolicy;
+
+    if (policy?.policy === "keep" || policy?.policy === "clear") {
+      valuePolicies[property] = { policy: policy.policy };
+    } else if (policy?.policy === "set" && "value" in policy) {
+      valuePolicies[property] = { policy: "set", value: policy.value };
+    } else {
+      throw new Error(`Invalid request option valuePolicies: bad policy for "${property}"`);
+    }
+  }
+
+  return valuePolicies;
+}
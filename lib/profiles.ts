@@ -0,0 +1,140 @@
+import { readFileSync } from "node:fs";
+import { isSameNotionId } from "./notion.js";
+import type { SourceQuery } from "./options.js";
+import type { PropertyRulesConfig } from "./property-rules.js";
+import type { RetentionPolicy } from "./retention.js";
+
+// A named clone configuration: what to clone, where to put it and with which options.
+// Profiles only come from server configuration, never from the request.
+export interface CloneProfile {
+  sourceDatabaseId: string;
+  parentPageId: string;
+  nameTemplate: string;
+  options: { [key: string]: any };
+  rules?: Partial<PropertyRulesConfig>;
+  filters?: { [name: string]: SourceQuery };
+  syncTargetDatabaseId?: string; // existing clone that sync mode updates
+  retention?: RetentionPolicy;
+  nameLocale?: string;
+  nameTimeZone?: string;
+}
+
+export const DEFAULT_PROFILE_NAME = "default";
+
+// Source databases that may be cloned: SOURCE_DATABASE_ID plus ALLOWED_SOURCE_DATABASE_IDS
+function getAllowedSourceDatabaseIds(): string[] {
+  return [
+    process.env.SOURCE_DATABASE_ID,
+    ...(process.env.ALLOWED_SOURCE_DATABASE_IDS || "").split(","),
+  ]
+    .map((id) => id?.trim())
+    .filter((id): id is string => !!id);
+}
+
+// Load named profiles from CLONE_PROFILES (JSON) or CLONE_PROFILES_FILE (path to a JSON file)
+export function loadCloneProfiles(): { [name: string]: CloneProfile } {
+  let rawProfiles: string | undefined = process.env.CLONE_PROFILES;
+
+  if (!rawProfiles && process.env.CLONE_PROFILES_FILE) {
+    try {
+      rawProfiles = readFileSync(process.env.CLONE_PROFILES_FILE, "utf8");
+    } catch {
+      throw new Error("CLONE_PROFILES_FILE environment variable points to an unreadable file");
+    }
+  }
+
+  if (!rawProfiles) {
+    return {};
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(rawProfiles);
+  } catch {
+    throw new Error("CLONE_PROFILES environment variable contains invalid JSON");
+  }
+
+  const profiles: { [name: string]: CloneProfile } = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    const profile = value as any;
+    if (!profile?.sourceDatabaseId || !profile?.parentPageId) {
+      throw new Error(
+        `Profile "${name}" in CLONE_PROFILES environment variable needs sourceDatabaseId and parentPageId`,
+      );
+    }
+
+    profiles[name] = {
+      sourceDatabaseId: profile.sourceDatabaseId,
+      parentPageId: profile.parentPageId,
+      nameTemplate: profile.nameTemplate || `${profile.name || name} ({date})`,
+      options: profile.options || {},
+      rules: profile.rules,
+      filters: profile.filters,
+      syncTargetDatabaseId: profile.syncTargetDatabaseId,
+      retention: profile.retention,
+      nameLocale: profile.nameLocale,
+      nameTimeZone: profile.nameTimeZone,
+    };
+  }
+
+  return profiles;
+}
+
+// Resolve the profile for a run. Without a profile name the single-database environment
+// configuration is used. Every source must be on the allowlist, unless the run does not read
+// the source (a restore takes it from the snapshot).
+export function resolveCloneProfile(
+  profileName: string | undefined,
+  requireSource = true,
+): CloneProfile {
+  let profile: CloneProfile;
+
+  if (profileName === undefined || profileName === DEFAULT_PROFILE_NAME) {
+    const profiles = loadCloneProfiles();
+
+    if (profiles[DEFAULT_PROFILE_NAME]) {
+      profile = profiles[DEFAULT_PROFILE_NAME];
+    } else {
+      if (requireSource && !process.env.SOURCE_DATABASE_ID) {
+        throw new Error("SOURCE_DATABASE_ID environment variable is required");
+      }
+
+      if (!process.env.PARENT_PAGE_ID) {
+        throw new Error("PARENT_PAGE_ID environment variable is required");
+      }
+
+      profile = {
+        sourceDatabaseId: process.env.SOURCE_DATABASE_ID ?? "",
+        parentPageId: process.env.PARENT_PAGE_ID,
+        nameTemplate: `${process.env.NEW_DATABASE_NAME || "Cloned Database"} ({date})`,
+        options: {},
+        syncTargetDatabaseId: process.env.SYNC_TARGET_DATABASE_ID,
+      };
+    }
+  } else {
+    if (typeof profileName !== "string") {
+      throw new Error("Invalid request option profile: must be a string");
+    }
+
+    const profiles = loadCloneProfiles();
+    if (!Object.hasOwn(profiles, profileName)) {
+      throw new Error(`Invalid request option profile: unknown profile "${profileName}"`);
+    }
+    profile = profiles[profileName];
+  }
+
+  if (requireSource) {
+    assertSourceAllowed(profile.sourceDatabaseId);
+  }
+
+  return profile;
+}
+
+export function assertSourceAllowed(sourceDatabaseId: string): void {
+  const isAllowed = getAllowedSourceDatabaseIds().some((id) =>
+    isSameNotionId(id, sourceDatabaseId),
+  );
+  if (!isAllowed) {
+    throw new Error(`Source database ${sourceDatabaseId} is not on the allowlist`);
+  }
+}
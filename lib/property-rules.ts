@@ -0,0 +1,498 @@
+import { readFileSync } from "node:fs";
+import type { CloneOptions, ValuePolicy } from "./options.js";
+
+// Declarative property transforms, applied the same way to the cloned schema and to page values
+type PropertyRule =
+  | { action: "rename"; property: string; to: string }
+  | { action: "drop"; property: string }
+  | { action: "add"; property: string; type: string; config?: any }
+  | { action: "changeType"; property: string; type: string; config?: any }
+  | { action: "setDefault"; property: string; value: any };
+
+export interface PropertyRulesConfig {
+  rules: PropertyRule[];
+  // Relation fields expressing the hierarchy: child fields list a page's sub-items,
+  // parent fields point at its parent item
+  hierarchy: { childFields: string[]; parentFields: string[] };
+  // Column filled with the parent item's title
+  suiteProperty: string;
+  // Column holding the source page ID, used by sync mode to match cloned pages to their source
+  sourceIdProperty: string;
+  // Columns with all ancestor suites ("Checkout > Payments > Cards"), the number of
+  // ancestors and the topmost suite
+  suitePathProperty: string;
+  suiteDepthProperty: string;
+  rootSuiteProperty: string;
+}
+
+const PROPERTY_RULE_ACTIONS = ["rename", "drop", "add", "changeType", "setDefault"];
+
+// Default rules: prefixes for alphabetical sorting, plus the Test Suite, Last Edited By and
+// suite path columns
+export const DEFAULT_PROPERTY_RULES: PropertyRulesConfig = {
+  rules: [
+    { action: "rename", property: "Done", to: "a. Done" },
+    { action: "rename", property: "Action", to: "b. Action" },
+    { action: "rename", property: "URL", to: "u. URL" },
+    { action: "rename", property: "Last Edited By", to: "z. Last Edited By" },
+    { action: "add", property: "Test Suite", type: "rich_text" },
+    { action: "add", property: "z. Last Edited By", type: "last_edited_by" },
+    { action: "add", property: "Suite Path", type: "rich_text" },
+    { action: "add", property: "Suite Depth", type: "number", config: { format: "number" } },
+    { action: "add", property: "Root Suite", type: "rich_text" },
+  ],
+  hierarchy: {
+    childFields: ["Sub-items", "Sub-item", "Related to Checklist (Sub-item)"],
+    parentFields: ["Parent item", "Related to Checklist (Parent item)"],
+  },
+  suiteProperty: "Test Suite",
+  sourceIdProperty: "Source ID",
+  suitePathProperty: "Suite Path",
+  suiteDepthProperty: "Suite Depth",
+  rootSuiteProperty: "Root Suite",
+};
+
+// Separator between the suite titles of a Suite Path
+const SUITE_PATH_SEPARATOR = " > ";
+
+// Name of a source property in the clone
+export function getTargetPropertyName(name: string, rules: PropertyRulesConfig): string {
+  const rename = rules.rules.find((rule) => rule.action === "rename" && rule.property === name);
+  return rename && rename.action === "rename" ? rename.to : name;
+}
+
+export function isDroppedProperty(name: string, rules: PropertyRulesConfig): boolean {
+  return rules.rules.some((rule) => rule.action === "drop" && rule.property === name);
+}
+
+function getTypeChange(
+  name: string,
+  rules: PropertyRulesConfig,
+): { type: string; config?: any } | undefined {
+  const change = rules.rules.find((rule) => rule.action === "changeType" && rule.property === name);
+  return change && change.action === "changeType" ? change : undefined;
+}
+
+export function getHierarchyFields(rules: PropertyRulesConfig): string[] {
+  return [...rules.hierarchy.childFields, ...rules.hierarchy.parentFields];
+}
+
+// Where the configured rules come from, as named in error messages
+function describeRulesSource(profileName: string | undefined): string {
+  if (profileName !== undefined) {
+    const profilesVariable = process.env.CLONE_PROFILES ? "CLONE_PROFILES" : "CLONE_PROFILES_FILE";
+    return `Rules of profile "${profileName}" in ${profilesVariable} environment variable`;
+  }
+  return process.env.PROPERTY_RULES
+    ? "PROPERTY_RULES environment variable"
+    : "PROPERTY_RULES_FILE environment variable";
+}
+
+// Whether a rule has the fields its action needs
+function isValidRule(rule: any): boolean {
+  if (!PROPERTY_RULE_ACTIONS.includes(rule?.action) || typeof rule.property !== "string") {
+    return false;
+  }
+
+  switch (rule.action) {
+    case "rename":
+      return typeof rule.to === "string" && rule.to !== "";
+    case "add":
+    case "changeType":
+      return typeof rule.type === "string";
+    case "setDefault":
+      return "value" in rule;
+    default:
+      return true;
+  }
+}
+
+// Load property rules from the profile, PROPERTY_RULES (JSON) or PROPERTY_RULES_FILE,
+// falling back to the defaults for anything not configured
+export function loadPropertyRules(profileRules?: any, profileName?: string): PropertyRulesConfig {
+  let configured: any = profileRules;
+
+  if (!configured) {
+    let rawRules: string | undefined = process.env.PROPERTY_RULES;
+
+    if (!rawRules && process.env.PROPERTY_RULES_FILE) {
+      try {
+        rawRules = readFileSync(process.env.PROPERTY_RULES_FILE, "utf8");
+      } catch {
+        throw new Error("PROPERTY_RULES_FILE environment variable points to an unreadable file");
+      }
+    }
+
+    if (rawRules) {
+      try {
+        configured = JSON.parse(rawRules);
+      } catch {
+        throw new Error("PROPERTY_RULES environment variable contains invalid JSON");
+      }
+    }
+  }
+
+  const rules: PropertyRulesConfig = {
+    ...DEFAULT_PROPERTY_RULES,
+    ...configured,
+    hierarchy: { ...DEFAULT_PROPERTY_RULES.hierarchy, ...configured?.hierarchy },
+  };
+  const source = describeRulesSource(profileRules ? profileName : undefined);
+
+  if (!Array.isArray(rules.rules)) {
+    throw new Error(`${source} has "rules" that are not an array`);
+  }
+
+  for (const rule of rules.rules) {
+    if (!isValidRule(rule)) {
+      throw new Error(`${source} contains an invalid rule: ${JSON.stringify(rule)}`);
+    }
+  }
+
+  // The Test Suite values are written to a column the rules must add
+  if (!rules.rules.some((rule) => rule.action === "add" && rule.property === rules.suiteProperty)) {
+    throw new Error(
+      `${source} has no "add" rule for the suiteProperty column "${rules.suiteProperty}"`,
+    );
+  }
+
+  return rules;
+}
+
+// Build a property value of the given type from a plain value (string, number, boolean, list).
+// Empty input produces the empty value of that type.
+export function buildPropertyValue(type: string, raw: any): any {
+  const isEmpty = raw === null || raw === undefined || raw === "";
+
+  switch (type) {
+    case "title":
+    case "rich_text":
+      return { type, [type]: isEmpty ? [] : [{ type: "text", text: { content: String(raw) } }] };
+    case "number": {
+      const number = Number(raw);
+      return { type, number: isEmpty || Number.isNaN(number) ? null : number };
+    }
+    case "checkbox":
+      return { type, checkbox: raw === true || String(raw).toLowerCase() === "true" };
+    case "select":
+    case "status":
+      return { type, [type]: isEmpty ? null : { name: String(raw) } };
+    case "multi_select": {
+      const names = Array.isArray(raw) ? raw : isEmpty ? [] : String(raw).split(",");
+      return {
+        type,
+        multi_select: names
+          .map((name: any) => String(name).trim())
+          .filter(Boolean)
+          .map((name: string) => ({ name })),
+      };
+    }
+    case "date":
+      return { type, date: isEmpty ? null : { start: String(raw) } };
+    case "url":
+    case "email":
+    case "phone_number":
+      return { type, [type]: isEmpty ? null : String(raw) };
+    case "people":
+    case "files":
+      return { type, [type]: [] };
+    default:
+      throw new Error(`Property type "${type}" cannot be set to a value`);
+  }
+}
+
+// Plain-text rendering of a property value, used to convert values between types and for
+// CSV exports
+export function getPropertyPlainText(value: any): string {
+  const content = value?.[value?.type];
+
+  switch (value?.type) {
+    case "title":
+    case "rich_text":
+      return content.map((item: any) => item.plain_text ?? item.text?.content ?? "").join("");
+    case "select":
+    case "status":
+      return content?.name ?? "";
+    case "multi_select":
+      return content.map((option: any) => option.name).join(", ");
+    case "date":
+      return content?.start ?? "";
+    case "people":
+      return content.map((person: any) => person.name ?? person.id).join(", ");
+    case "created_by":
+    case "last_edited_by":
+      return content?.name ?? content?.id ?? "";
+    case "relation":
+      return content.map((item: any) => item.id).join(", ");
+    case "files":
+      return content.map((file: any) => file.name).join(", ");
+    case "unique_id":
+      if (content?.number === null || content?.number === undefined) {
+        return "";
+      }
+      return content.prefix ? `${content.prefix}-${content.number}` : String(content.number);
+    // Computed values hold a value of their own type: a formula result or a rollup aggregate
+    case "formula":
+    case "rollup":
+      return content?.type === "array"
+        ? content.array.map(getPropertyPlainText).join(", ")
+        : getPropertyPlainText(content);
+    case "string":
+    case "boolean":
+    case "created_time":
+    case "last_edited_time":
+    case "number":
+    case "checkbox":
+    case "url":
+    case "email":
+    case "phone_number":
+      return content === null || content === undefined ? "" : String(content);
+    default:
+      return "";
+  }
+}
+
+function isEmptyPropertyValue(value: any): boolean {
+  const content = value?.[value?.type];
+  return (
+    content === null || content === undefined || (Array.isArray(content) && content.length === 0)
+  );
+}
+
+// Filter database schema properties to exclude problematic ones and apply the property rules
+export function filterDatabaseSchemaProperties(
+  properties: any,
+  rules: PropertyRulesConfig = DEFAULT_PROPERTY_RULES,
+): any {
+  const filteredProperties: any = {};
+  const renamedProperties: { [key: string]: any } = {};
+
+  console.log("🔍 Processing database schema properties...");
+  console.log(`📊 Total properties to process: ${Object.keys(properties).length}`);
+
+  for (const [key, value] of Object.entries(properties)) {
+    const prop = value as any;
+
+    console.log(`🔍 Processing property "${key}" of type "${prop.type}"`);
+
+    // Skip relation properties here; they are added once the clone exists (buildRelationSchema)
+    if (prop.type === "relation") {
+      console.log(`Deferring relation property in schema: ${key}`);
+      continue;
+    }
+
+    // Skip rollup and formula properties here; see recreateDerivedProperties
+    if (prop.type === "rollup" || prop.type === "formula") {
+      console.log(`Deferring ${prop.type} property in schema: ${key}`);
+      continue;
+    }
+
+    if (isDroppedProperty(key, rules)) {
+      console.log(`🗑️ Dropping property by rule: ${key}`);
+      continue;
+    }
+
+    const typeChange = getTypeChange(key, rules);
+    const schema = typeChange
+      ? { type: typeChange.type, [typeChange.type]: typeChange.config ?? {} }
+      : value;
+    if (typeChange) {
+      console.log(`🔀 Changing type of "${key}" from "${prop.type}" to "${typeChange.type}"`);
+    }
+
+    // If this property should be renamed by a rule, save it for later
+    const targetName = getTargetPropertyName(key, rules);
+    if (targetName !== key) {
+      console.log(`📋 Found "${key}" property, will rename to "${targetName}"`);
+      renamedProperties[targetName] = schema;
+      continue;
+    }
+
+    // Include all other property types (title, rich_text, number, etc.)
+    filteredProperties[key] = schema;
+  }
+
+  // Add renamed properties at the beginning for proper sorting
+  const reorderedProperties = { ...renamedProperties, ...filteredProperties };
+
+  if (Object.keys(renamedProperties).length > 0) {
+    console.log(`🔄 Renamed properties: ${Object.keys(renamedProperties).join(", ")}`);
+  }
+
+  // Add the columns the rules introduce, unless the source already provides them
+  for (const rule of rules.rules) {
+    if (rule.action === "add" && !(rule.property in reorderedProperties)) {
+      reorderedProperties[rule.property] = { type: rule.type, [rule.type]: rule.config ?? {} };
+      console.log(`🔧 Added ${rule.property} field`);
+    }
+  }
+
+  console.log("✅ Finished processing database schema properties");
+  return reorderedProperties;
+}
+
+// Filter properties to exclude problematic ones for page creation and apply the property rules
+export function filterPropertiesForCreation(
+  properties: any,
+  rules: PropertyRulesConfig = DEFAULT_PROPERTY_RULES,
+): any {
+  const filteredProperties: any = {};
+
+  for (const [key, value] of Object.entries(properties)) {
+    const prop = value as any;
+
+    // Skip relation properties; their values are remapped after copying (remapPageRelations)
+    if (prop.type === "relation") {
+      console.log(`Skipping relation property: ${key}`);
+      continue;
+    }
+
+    // Skip rollup properties as they depend on relations
+    if (prop.type === "rollup") {
+      console.log(`Skipping rollup property: ${key}`);
+      continue;
+    }
+
+    // Skip formula properties as they are calculated automatically
+    if (prop.type === "formula") {
+      console.log(`Skipping formula property: ${key}`);
+      continue;
+    }
+
+    // Skip created_by and last_edited_by as they are system properties
+    if (prop.type === "created_by" || prop.type === "last_edited_by") {
+      console.log(`Skipping system property: ${key}`);
+      continue;
+    }
+
+    // Skip created_time and last_edited_time as they are system properties
+    if (prop.type === "created_time" || prop.type === "last_edited_time") {
+      console.log(`Skipping system property: ${key}`);
+      continue;
+    }
+
+    if (isDroppedProperty(key, rules)) {
+      continue;
+    }
+
+    // Convert the value when a rule changes the property type
+    const typeChange = getTypeChange(key, rules);
+    const propertyValue = typeChange
+      ? buildPropertyValue(typeChange.type, getPropertyPlainText(prop))
+      : value;
+
+    // Rename properties by rule in target database
+    const targetName = getTargetPropertyName(key, rules);
+    if (targetName !== key) {
+      console.log(`Renamed property "${key}" to "${targetName}"`);
+    }
+    filteredProperties[targetName] = propertyValue;
+  }
+
+  // Fill empty values with the defaults set by rules; added columns take their type from the rule
+  for (const rule of rules.rules) {
+    if (rule.action !== "setDefault" || !isEmptyPropertyValue(filteredProperties[rule.property])) {
+      continue;
+    }
+
+    const type =
+      filteredProperties[rule.property]?.type ?? getAddedColumnType(rule.property, rules);
+
+    if (type) {
+      filteredProperties[rule.property] = buildPropertyValue(type, rule.value);
+    }
+  }
+
+  return filteredProperties;
+}
+
+function getAddedColumnType(name: string, rules: PropertyRulesConfig): string | undefined {
+  const addRule = rules.rules.find((rule) => rule.action === "add" && rule.property === name);
+  return addRule && addRule.action === "add" ? addRule.type : undefined;
+}
+
+// Apply per-run value policies to filtered page values. Policies may name a property by its
+// source name or by its name in the clone.
+export function applyValuePolicies(
+  properties: any,
+  valuePolicies: { [property: string]: ValuePolicy },
+  rules: PropertyRulesConfig = DEFAULT_PROPERTY_RULES,
+): any {
+  const result = { ...properties };
+
+  for (const [name, valuePolicy] of Object.entries(valuePolicies)) {
+    if (valuePolicy.policy === "keep") {
+      continue;
+    }
+
+    const targetName = getTargetPropertyName(name, rules);
+    const type = result[targetName]?.type ?? getAddedColumnType(targetName, rules);
+    if (!type) {
+      continue;
+    }
+
+    result[targetName] = buildPropertyValue(
+      type,
+      valuePolicy.policy === "set" ? valuePolicy.value : null,
+    );
+  }
+
+  return result;
+}
+
+// Whether a column comes from an add rule rather than from a source property with its name
+function isAddedColumn(name: string, sourceProperties: any, rules: PropertyRulesConfig): boolean {
+  return (
+    getAddedColumnType(name, rules) !== undefined &&
+    !Object.keys(sourceProperties).some(
+      (key) => !isDroppedProperty(key, rules) && getTargetPropertyName(key, rules) === name,
+    )
+  );
+}
+
+// Schema of a new clone: the filtered source schema plus the Source ID column sync mode
+// matches pages by
+export function buildCloneSchema(
+  sourceProperties: any,
+  rules: PropertyRulesConfig = DEFAULT_PROPERTY_RULES,
+): any {
+  return {
+    ...filterDatabaseSchemaProperties(sourceProperties, rules),
+    [rules.sourceIdProperty]: { type: "rich_text", rich_text: {} },
+  };
+}
+
+// Property values of a cloned page: the filtered source values with the value policies
+// applied, the Test Suite (parent title), the suite path columns and the Source ID
+export function buildClonedPageProperties(
+  page: any,
+  parentTitle: string | undefined,
+  options: CloneOptions,
+  rules: PropertyRulesConfig = DEFAULT_PROPERTY_RULES,
+  suitePath: string[] = parentTitle ? [parentTitle] : [],
+): any {
+  const properties = applyValuePolicies(
+    filterPropertiesForCreation(page.properties, rules),
+    options.valuePolicies,
+    rules,
+  );
+
+  if (parentTitle) {
+    properties[rules.suiteProperty] = buildPropertyValue("rich_text", parentTitle);
+  }
+  // The suite path columns are only written when the rules add them, never over a source
+  // property of the same name
+  const suiteColumns: [string, string | number][] = [
+    [rules.suitePathProperty, suitePath.join(SUITE_PATH_SEPARATOR)],
+    [rules.suiteDepthProperty, suitePath.length],
+    [rules.rootSuiteProperty, suitePath[0] ?? ""],
+  ];
+  for (const [name, value] of suiteColumns) {
+    if (isAddedColumn(name, page.properties, rules)) {
+      properties[name] = buildPropertyValue(getAddedColumnType(name, rules)!, value);
+    }
+  }
+  properties[rules.sourceIdProperty] = buildPropertyValue("rich_text", page.id);
+
+  return properties;
+}
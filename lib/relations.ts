@@ -0,0 +1,298 @@
+import { getErrorMessage } from "./errors.js";
+import { BATCH_SIZE, getPageTitle, isSameNotionId, notion } from "./notion.js";
+import type { CloneOptions } from "./options.js";
+import {
+  DEFAULT_PROPERTY_RULES,
+  type PropertyRulesConfig,
+  getHierarchyFields,
+  getTargetPropertyName,
+  isDroppedProperty,
+} from "./property-rules.js";
+import type { PageIssue } from "./report.js";
+
+// Property names of the self-relation pair recreated in "nested" hierarchy mode
+export const NESTED_PARENT_PROPERTY = "Parent item";
+export const NESTED_CHILDREN_PROPERTY = "Sub-items";
+
+// Collect relation properties from the source schema, keyed by their name in the clone
+export function collectRelationProperties(
+  properties: any,
+  rules: PropertyRulesConfig = DEFAULT_PROPERTY_RULES,
+): { [key: string]: any } {
+  const relationProperties: { [key: string]: any } = {};
+
+  for (const [key, value] of Object.entries(properties)) {
+    const prop = value as any;
+    if (prop.type === "relation" && !isDroppedProperty(key, rules)) {
+      relationProperties[getTargetPropertyName(key, rules)] = { ...prop, sourceName: key };
+    }
+  }
+
+  return relationProperties;
+}
+
+// Build the schema update that re-adds relation properties to the clone. Self-relations point
+// at the clone; every relation is single_property so other databases are left untouched.
+export function buildRelationSchema(
+  relationProperties: { [key: string]: any },
+  sourceDatabaseId: string,
+  targetDatabaseId: string,
+): any {
+  const schema: any = {};
+
+  for (const [name, prop] of Object.entries(relationProperties)) {
+    const relatedDatabaseId = prop.relation.database_id;
+    schema[name] = {
+      relation: {
+        database_id: isSameNotionId(relatedDatabaseId, sourceDatabaseId)
+          ? targetDatabaseId
+          : relatedDatabaseId,
+        type: "single_property",
+        single_property: {},
+      },
+    };
+  }
+
+  return schema;
+}
+
+// Rewrite related page IDs onto cloned pages; self-relation links to pages that were not
+// cloned are dropped and counted as unresolved
+export function remapRelationIds(
+  relatedIds: string[],
+  pageIdMap: Map<string, string>,
+  isSelfRelation: boolean,
+): { ids: string[]; remapped: number; unresolved: number } {
+  if (!isSelfRelation) {
+    return { ids: relatedIds, remapped: 0, unresolved: 0 };
+  }
+
+  const ids: string[] = [];
+  let unresolved = 0;
+
+  for (const relatedId of relatedIds) {
+    const clonedId = pageIdMap.get(relatedId);
+    if (clonedId) {
+      ids.push(clonedId);
+    } else {
+      unresolved++;
+    }
+  }
+
+  return { ids, remapped: ids.length, unresolved };
+}
+
+// Read every related page ID of a relation property. Query results truncate relations
+// at 25 items (has_more), so the full list is fetched through the page property endpoint.
+async function getRelationPageIds(page: any, propertyName: string): Promise<string[]> {
+  const property = page.properties[propertyName];
+
+  if (!property.has_more) {
+    return property.relation.map((item: any) => item.id);
+  }
+
+  const relatedIds: string[] = [];
+  let startCursor: string | undefined = undefined;
+
+  do {
+    const response: any = await notion.pages.properties.retrieve({
+      page_id: page.id,
+      property_id: property.id,
+      start_cursor: startCursor,
+    });
+
+    for (const item of response.results) {
+      relatedIds.push(item.relation.id);
+    }
+    startCursor = response.next_cursor || undefined;
+  } while (startCursor);
+
+  return relatedIds;
+}
+
+// Relation properties the clone gets. In nested mode the hierarchy fields are replaced by
+// the rebuilt Parent item / Sub-items relation.
+export function getClonedRelationProperties(
+  sourceProperties: any,
+  options: CloneOptions,
+  rules: PropertyRulesConfig,
+): { [key: string]: any } {
+  return Object.fromEntries(
+    Object.entries(collectRelationProperties(sourceProperties, rules)).filter(
+      ([, prop]) =>
+        options.hierarchyMode !== "nested" || !getHierarchyFields(rules).includes(prop.sourceName),
+    ),
+  );
+}
+
+// Map source relation names to the relations available in the clone, for rebuilding rollups
+export function buildClonedRelationsMap(
+  relationProperties: { [key: string]: any },
+  sourceDatabaseId: string,
+  options: CloneOptions,
+): Map<string, { name: string; isSelfRelation: boolean }> {
+  const clonedRelations = new Map<string, { name: string; isSelfRelation: boolean }>();
+
+  for (const [name, prop] of Object.entries(relationProperties)) {
+    clonedRelations.set(prop.sourceName, {
+      name,
+      isSelfRelation: isSameNotionId(prop.relation.database_id, sourceDatabaseId),
+    });
+  }
+
+  if (options.hierarchyMode === "nested") {
+    for (const name of [NESTED_PARENT_PROPERTY, NESTED_CHILDREN_PROPERTY]) {
+      clonedRelations.set(name, { name, isSelfRelation: true });
+    }
+  }
+
+  return clonedRelations;
+}
+
+// STEP 2: Write relation values onto the cloned pages using the source → clone page ID map.
+// With clearEmpty, relations that are empty at the source are cleared on the clone (sync).
+export async function remapPageRelations(
+  sourcePages: any[],
+  pageIdMap: Map<string, string>,
+  relationProperties: { [key: string]: any },
+  sourceDatabaseId: string,
+  clearEmpty = false,
+): Promise<{
+  remappedRelationsCount: number;
+  unresolvedRelationsCount: number;
+  droppedPages: PageIssue[];
+}> {
+  let remappedRelationsCount = 0;
+  let unresolvedRelationsCount = 0;
+  const droppedPages: PageIssue[] = [];
+
+  const clonedPages = sourcePages.filter((page) => pageIdMap.has(page.id));
+  console.log(`🔗 Remapping relations on ${clonedPages.length} cloned pages...`);
+
+  for (let i = 0; i < clonedPages.length; i += BATCH_SIZE) {
+    const batch = clonedPages.slice(i, i + BATCH_SIZE);
+
+    const batchPromises = batch.map(async (page) => {
+      const properties: any = {};
+
+      for (const [name, prop] of Object.entries(relationProperties)) {
+        if (!page.properties[prop.sourceName]) {
+          continue;
+        }
+
+        const relatedIds = await getRelationPageIds(page, prop.sourceName);
+        const isSelfRelation = isSameNotionId(prop.relation.database_id, sourceDatabaseId);
+        const { ids, remapped, unresolved } = remapRelationIds(
+          relatedIds,
+          pageIdMap,
+          isSelfRelation,
+        );
+
+        remappedRelationsCount += remapped;
+        unresolvedRelationsCount += unresolved;
+
+        if (ids.length > 0 || clearEmpty) {
+          properties[name] = { relation: ids.map((id) => ({ id })) };
+        }
+      }
+
+      if (Object.keys(properties).length === 0) {
+        return;
+      }
+
+      try {
+        await notion.pages.update({
+          page_id: pageIdMap.get(page.id)!,
+          properties,
+        });
+      } catch (error) {
+        console.error(`❌ Error remapping relations for "${getPageTitle(page)}":`, error);
+        droppedPages.push({
+          id: page.id,
+          title: getPageTitle(page),
+          reason: `Relations not linked: ${getErrorMessage(error)}`,
+        });
+      }
+    });
+
+    await Promise.allSettled(batchPromises);
+  }
+
+  console.log(
+    `🔗 Relations remapped: ${remappedRelationsCount} linked, ${unresolvedRelationsCount} unresolved`,
+  );
+  return { remappedRelationsCount, unresolvedRelationsCount, droppedPages };
+}
+
+// Add the Parent item / Sub-items self-relation rebuilding the hierarchy to the clone
+async function addNestedHierarchyRelation(targetDatabaseId: string): Promise<void> {
+  const updatedDatabase: any = await notion.databases.update({
+    database_id: targetDatabaseId,
+    properties: {
+      [NESTED_PARENT_PROPERTY]: {
+        relation: {
+          database_id: targetDatabaseId,
+          type: "dual_property",
+          dual_property: {},
+        },
+      },
+    },
+  });
+
+  // Notion names the synced side of a dual relation itself, so rename it to Sub-items
+  const syncedPropertyId =
+    updatedDatabase.properties[NESTED_PARENT_PROPERTY]?.relation?.dual_property?.synced_property_id;
+  if (syncedPropertyId) {
+    await notion.databases.update({
+      database_id: targetDatabaseId,
+      properties: {
+        [syncedPropertyId]: { name: NESTED_CHILDREN_PROPERTY },
+      },
+    });
+  }
+  console.log(`🌳 Added "${NESTED_PARENT_PROPERTY}" / "${NESTED_CHILDREN_PROPERTY}" self-relation`);
+}
+
+// STEP 2 (nested mode): Recreate the Parent item / Sub-items self-relation on the clone
+// (unless it already has it) and link every cloned child to its cloned parent
+export async function linkClonedHierarchy(
+  targetDatabaseId: string,
+  parentIdMap: Map<string, string>,
+  pageIdMap: Map<string, string>,
+  hasRelation = false,
+): Promise<number> {
+  if (!hasRelation) {
+    await addNestedHierarchyRelation(targetDatabaseId);
+  }
+
+  const links = [...parentIdMap.entries()].filter(
+    ([childId, parentId]) => pageIdMap.has(childId) && pageIdMap.has(parentId),
+  );
+  let linkedCount = 0;
+
+  for (let i = 0; i < links.length; i += BATCH_SIZE) {
+    const batch = links.slice(i, i + BATCH_SIZE);
+
+    const results = await Promise.allSettled(
+      batch.map(([childId, parentId]) =>
+        notion.pages.update({
+          page_id: pageIdMap.get(childId)!,
+          properties: {
+            [NESTED_PARENT_PROPERTY]: { relation: [{ id: pageIdMap.get(parentId)! }] },
+          },
+        }),
+      ),
+    );
+
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        linkedCount++;
+      } else {
+        console.error("❌ Error linking sub-item to its parent:", result.reason);
+      }
+    }
+  }
+
+  console.log(`🌳 Linked ${linkedCount}/${links.length} sub-items to their parents`);
+  return linkedCount;
+}
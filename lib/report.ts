@@ -0,0 +1,157 @@
+import type { HierarchyIssues } from "./hierarchy.js";
+import type { CloneOptions } from "./options.js";
+import {
+  type PropertyRulesConfig,
+  getHierarchyFields,
+  isDroppedProperty,
+} from "./property-rules.js";
+import { NESTED_CHILDREN_PROPERTY, NESTED_PARENT_PROPERTY } from "./relations.js";
+
+// A source property that will not be part of the clone, with the reason
+export interface DroppedProperty {
+  name: string;
+  type: string;
+  reason: string;
+}
+
+// A page the run skipped, could not copy, or copied without part of its data
+export interface PageIssue {
+  id: string; // source page ID
+  title: string;
+  reason: string;
+}
+
+interface PhaseTiming {
+  phase: ClonePhase;
+  durationMs: number;
+}
+
+// "partial" when some pages failed or lost data, "failed" when the share of failed pages
+// exceeds the failure threshold
+type RunStatus = "succeeded" | "partial" | "failed";
+
+// Page-by-page account of a clone or sync run
+export interface RunReport {
+  status: RunStatus;
+  failureThreshold: number;
+  attemptedPagesCount: number; // pages the run tried to create or update
+  skippedPages: PageIssue[]; // left out on purpose, such as pages without a Test Suite
+  failedPages: PageIssue[]; // not created or updated
+  droppedPages: PageIssue[]; // created, but their body or relations could not be copied
+  droppedProperties: DroppedProperty[];
+  hierarchyIssues: HierarchyIssues;
+  phases: PhaseTiming[];
+}
+
+export type ClonePhase =
+  | "queued"
+  | "retrieving_source"
+  | "fetching_pages"
+  | "creating_database"
+  | "copying_pages"
+  | "linking_relations"
+  | "recreating_properties"
+  | "updating_schema"
+  | "syncing_pages"
+  | "archiving_pages"
+  | "completed"
+  | "failed";
+
+interface CloneProgress {
+  phase: ClonePhase;
+  pagesDone?: number;
+  pagesTotal?: number;
+  failedPagesCount?: number;
+}
+
+export type ProgressCallback = (progress: CloneProgress) => void | Promise<void>;
+
+// Source properties the property rules or the hierarchy mode leave out of the clone.
+// Formulas and rollups that cannot be recreated are found when they are added.
+export function collectDroppedProperties(
+  sourceProperties: any,
+  options: CloneOptions,
+  rules: PropertyRulesConfig,
+): DroppedProperty[] {
+  const droppedProperties: DroppedProperty[] = [];
+
+  for (const [name, prop] of Object.entries(sourceProperties) as [string, any][]) {
+    if (isDroppedProperty(name, rules)) {
+      droppedProperties.push({ name, type: prop.type, reason: "Dropped by property rule" });
+    } else if (
+      prop.type === "relation" &&
+      options.hierarchyMode === "nested" &&
+      getHierarchyFields(rules).includes(name)
+    ) {
+      droppedProperties.push({
+        name,
+        type: prop.type,
+        reason: `Replaced by the rebuilt "${NESTED_PARENT_PROPERTY}" / "${NESTED_CHILDREN_PROPERTY}" relation`,
+      });
+    }
+  }
+
+  return droppedProperties;
+}
+
+// Record how long each phase of a run takes, from the progress the run reports
+export function createPhaseTimer(onProgress?: ProgressCallback): {
+  onProgress: ProgressCallback;
+  finish: () => PhaseTiming[];
+} {
+  const phases: PhaseTiming[] = [];
+  let current: { phase: ClonePhase; startedAt: number } | undefined;
+
+  const endPhase = () => {
+    if (current) {
+      phases.push({ phase: current.phase, durationMs: Date.now() - current.startedAt });
+      current = undefined;
+    }
+  };
+
+  return {
+    onProgress: async (progress) => {
+      if (progress.phase !== current?.phase) {
+        endPhase();
+        current = { phase: progress.phase, startedAt: Date.now() };
+      }
+      await onProgress?.(progress);
+    },
+    finish: () => {
+      endPhase();
+      return phases;
+    },
+  };
+}
+
+// Sum up a run: it fails when the share of failed pages is above the failure threshold, and
+// is partial when any page failed or lost its body or relations
+export function buildRunReport(
+  pages: Pick<RunReport, "skippedPages" | "failedPages" | "droppedPages">,
+  attemptedPagesCount: number,
+  droppedProperties: DroppedProperty[],
+  hierarchyIssues: HierarchyIssues,
+  phases: PhaseTiming[],
+  failureThreshold: number,
+): RunReport {
+  const { skippedPages, failedPages, droppedPages } = pages;
+  let status: RunStatus = "succeeded";
+
+  if (attemptedPagesCount > 0 && failedPages.length / attemptedPagesCount > failureThreshold) {
+    status = "failed";
+  } else if (failedPages.length > 0 || droppedPages.length > 0) {
+    status = "partial";
+  }
+
+  return {
+    status,
+    failureThreshold,
+    attemptedPagesCount,
+    skippedPages,
+    failedPages,
+    droppedPages,
+    droppedProperties,
+    hierarchyIssues,
+    phases,
+  };
+}
@@ -0,0 +1,119 @@
+import { NAME_TOKEN_PATTERN, type NamingOptions, resolveNameFormat } from "./naming.js";
+import { validateNotionId } from "./notion.js";
+import {
+  type CloneOptions,
+  type SourceQuery,
+  parseCloneOptions,
+  resolveSourceQuery,
+} from "./options.js";
+import {
+  type CloneProfile,
+  DEFAULT_PROFILE_NAME,
+  assertSourceAllowed,
+  resolveCloneProfile,
+} from "./profiles.js";
+import { type PropertyRulesConfig, loadPropertyRules } from "./property-rules.js";
+import { type RetentionPolicy, resolveRetentionPolicy } from "./retention.js";
+import { type DatabaseSnapshot, parseSnapshot } from "./snapshot.js";
+import { type AutomationTrigger, isAutomationPayload, parseAutomationTrigger } from "./trigger.js";
+
+// Everything a clone run needs, resolved and validated from the request before any Notion call
+export interface CloneRequest {
+  profileName: string;
+  profile: CloneProfile;
+  options: CloneOptions;
+  rules: PropertyRulesConfig;
+  query: SourceQuery;
+  naming: NamingOptions;
+  trigger?: AutomationTrigger;
+  snapshot?: DatabaseSnapshot; // restore mode: cloned instead of the source database
+  retention?: RetentionPolicy;
+}
+
+// Security validation for environment variables
+function validateEnvironment(): void {
+  if (!process.env.NOTION_TOKEN) {
+    throw new Error("NOTION_TOKEN environment variable is required");
+  }
+}
+
+// Parse the raw JSON body of a request; an empty body is an empty object
+export function parseRequestBody(rawBody: string): any {
+  if (!rawBody.trim()) {
+    return {};
+  }
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    throw new Error("Invalid request option: the request body is not valid JSON");
+  }
+}
+
+// Resolve the profile, options and property rules for a request and validate them,
+// so configuration errors are reported before any job is started
+export function prepareCloneRequest(body: any): CloneRequest {
+  // Validate environment variables
+  validateEnvironment();
+
+  // A Notion automation posts the triggering page, whose properties override the profile
+  const trigger = isAutomationPayload(body) ? parseAutomationTrigger(body) : undefined;
+  const requestBody = trigger
+    ? { profile: trigger.profile, ...(body.async !== undefined && { async: body.async }) }
+    : body;
+
+  // Pick the profile; request options override the profile's options
+  const profileName = requestBody?.profile ?? DEFAULT_PROFILE_NAME;
+  const isRestore = requestBody?.mode === "restore";
+  let profile = resolveCloneProfile(requestBody?.profile, !isRestore);
+
+  if (trigger?.sourceDatabaseId) {
+    assertSourceAllowed(trigger.sourceDatabaseId);
+    profile = { ...profile, sourceDatabaseId: trigger.sourceDatabaseId };
+  }
+  if (trigger?.nameTemplate) {
+    profile = { ...profile, nameTemplate: trigger.nameTemplate };
+  }
+
+  const options = parseCloneOptions({ ...profile.options, ...requestBody });
+  const rules = loadPropertyRules(profile.rules, profileName);
+  const query = resolveSourceQuery(options, profile);
+  const snapshot = isRestore ? parseSnapshot(requestBody?.snapshot) : undefined;
+
+  // The snapshot takes the place of the source database
+  if (snapshot) {
+    profile = { ...profile, sourceDatabaseId: snapshot.sourceDatabaseId };
+  }
+
+  // The name is rendered once the source is fetched; check now that it can be
+  const naming: NamingOptions = {
+    template: profile.nameTemplate,
+    date: new Date(),
+    ...resolveNameFormat(profile),
+    fields: options.nameFields,
+  };
+  for (const [, name, argument] of profile.nameTemplate.matchAll(NAME_TOKEN_PATTERN)) {
+    if (name === "field" && argument !== undefined && !Object.hasOwn(naming.fields, argument)) {
+      throw new Error(`Invalid request option nameFields: the name template needs "${argument}"`);
+    }
+  }
+
+  // Validate ID formats
+  if (!snapshot) {
+    validateNotionId(profile.sourceDatabaseId, "SOURCE_DATABASE_ID");
+  }
+  validateNotionId(profile.parentPageId, "PARENT_PAGE_ID");
+
+  // Sync mode writes into an existing clone, which only the server configuration may name
+  if (options.mode === "sync") {
+    if (!profile.syncTargetDatabaseId) {
+      throw new Error(
+        `Invalid request option mode: profile "${profileName}" has no sync target database`,
+      );
+    }
+    validateNotionId(profile.syncTargetDatabaseId, "SYNC_TARGET_DATABASE_ID");
+  }
+
+  const retention = resolveRetentionPolicy(profile);
+
+  return { profileName, profile, options, rules, query, naming, trigger, snapshot, retention };
+}
@@ -0,0 +1,210 @@
+import { isSameNotionId, notion } from "./notion.js";
+import type { CloneProfile } from "./profiles.js";
+import type { CloneRequest } from "./request.js";
+import { getCloneRegistryStore } from "./stores.js";
+
+// Which earlier clones of a profile to keep; the others are archived after a successful run
+export interface RetentionPolicy {
+  keepLast?: number; // number of clones kept, counting the one the run creates
+  maxAgeDays?: number;
+}
+
+// A clone of a profile, as recorded when it was created and found under the parent page
+export interface CloneRecord {
+  id: string;
+  title: string;
+  createdTime: string;
+}
+
+// The clones a profile created and the last {seq} it gave out, so naming and retention do not
+// depend on the names of the other databases under the parent
+export interface CloneRegistry {
+  profile: string;
+  sequence: number;
+  clones: CloneRecord[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Resolve the retention policy of a profile, falling back to RETENTION_KEEP_LAST and
+// RETENTION_MAX_AGE_DAYS. Without either, earlier clones are never archived.
+export function resolveRetentionPolicy(profile: CloneProfile): RetentionPolicy | undefined {
+  const readNumber = (name: string) => (process.env[name] ? Number(process.env[name]) : undefined);
+  const policy = profile.retention ?? {
+    keepLast: readNumber("RETENTION_KEEP_LAST"),
+    maxAgeDays: readNumber("RETENTION_MAX_AGE_DAYS"),
+  };
+
+  if (
+    policy.keepLast !== undefined &&
+    (!Number.isInteger(policy.keepLast) || policy.keepLast < 1)
+  ) {
+    throw new Error(
+      "Retention keepLast (profile retention or RETENTION_KEEP_LAST environment variable) must be a positive integer",
+    );
+  }
+
+  if (
+    policy.maxAgeDays !== undefined &&
+    (typeof policy.maxAgeDays !== "number" || !(policy.maxAgeDays > 0))
+  ) {
+    throw new Error(
+      "Retention maxAgeDays (profile retention or RETENTION_MAX_AGE_DAYS environment variable) must be a positive number",
+    );
+  }
+
+  if (policy.keepLast === undefined && policy.maxAgeDays === undefined) {
+    return undefined;
+  }
+  return { keepLast: policy.keepLast, maxAgeDays: policy.maxAgeDays };
+}
+
+// Pick the clones a retention policy archives: all but the newest keepLast (the clone the
+// run creates counts as the newest) and all older than maxAgeDays
+export function selectExpiredClones(
+  clones: CloneRecord[],
+  policy: RetentionPolicy,
+  now: number,
+  newDatabaseId?: string,
+): CloneRecord[] {
+  const earlierClones = clones
+    .filter((clone) => !newDatabaseId || !isSameNotionId(clone.id, newDatabaseId))
+    .sort((a, b) => Date.parse(b.createdTime) - Date.parse(a.createdTime));
+
+  return earlierClones.filter(
+    (clone, index) =>
+      (policy.keepLast !== undefined && index + 1 >= policy.keepLast) ||
+      (policy.maxAgeDays !== undefined &&
+        now - Date.parse(clone.createdTime) > policy.maxAgeDays * MS_PER_DAY),
+  );
+}
+
+// List the databases directly under the parent page
+export async function listChildDatabases(parentPageId: string): Promise<CloneRecord[]> {
+  const databases: CloneRecord[] = [];
+  let hasMore = true;
+  let startCursor: string | undefined = undefined;
+
+  while (hasMore) {
+    const response: any = await notion.blocks.children.list({
+      block_id: parentPageId,
+      start_cursor: startCursor,
+      page_size: 100,
+    });
+
+    for (const block of response.results) {
+      if (block.type === "child_database") {
+        databases.push({
+          id: block.id,
+          title: block.child_database.title,
+          createdTime: block.created_time,
+        });
+      }
+    }
+
+    hasMore = response.has_more;
+    startCursor = response.next_cursor || undefined;
+  }
+
+  return databases;
+}
+
+// List the earlier clones of the profile that are still under its parent page: the ones recorded
+// in its registry. A profile without a registry yet, such as one upgraded from an earlier
+// version, has its clones found by namePattern instead.
+export async function listEarlierClones(
+  request: CloneRequest,
+  namePattern: RegExp,
+): Promise<CloneRecord[]> {
+  const registry = await getCloneRegistryStore().get(request.profileName);
+  const databases = await listChildDatabases(request.profile.parentPageId);
+
+  if (!registry) {
+    return databases.filter((database) => namePattern.test(database.title));
+  }
+  return databases.filter((database) =>
+    registry.clones.some((clone) => isSameNotionId(clone.id, database.id)),
+  );
+}
+
+// Drop archived clones from the profile's registry
+async function forgetClones(request: CloneRequest, clones: CloneRecord[]): Promise<void> {
+  const store = getCloneRegistryStore();
+  const registry = await store.get(request.profileName);
+
+  if (registry && clones.length > 0) {
+    await store.save({
+      ...registry,
+      clones: registry.clones.filter(
+        (recorded) => !clones.some((clone) => isSameNotionId(clone.id, recorded.id)),
+      ),
+    });
+  }
+}
+
+// Record a new clone and the {seq} it was named with in the profile's registry. A new registry
+// starts with the earlier clones found by namePattern, so the retention policy reaches them too.
+// A failure is logged: the clone exists either way.
+export async function recordClone(
+  request: CloneRequest,
+  clone: CloneRecord,
+  sequence: number,
+  namePattern: RegExp,
+): Promise<void> {
+  try {
+    const store = getCloneRegistryStore();
+    const registry = (await store.get(request.profileName)) ?? {
+      profile: request.profileName,
+      sequence: 0,
+      clones: (await listEarlierClones(request, namePattern)).filter(
+        (earlier) => !isSameNotionId(earlier.id, clone.id),
+      ),
+    };
+
+    await store.save({
+      ...registry,
+      sequence: Math.max(registry.sequence, sequence),
+      clones: [...registry.clones, clone],
+    });
+  } catch (error) {
+    console.error(`❌ Error recording clone "${clone.title}":`, error);
+  }
+}
+
+// Archive the earlier clones the retention policy no longer keeps, once the run created its
+// own. Failures are logged and never undo the run.
+export async function applyRetentionPolicy(
+  request: CloneRequest,
+  newDatabaseId: string,
+  namePattern: RegExp,
+): Promise<CloneRecord[]> {
+  if (!request.retention) {
+    return [];
+  }
+
+  const archivedClones: CloneRecord[] = [];
+
+  try {
+    const expiredClones = selectExpiredClones(
+      await listEarlierClones(request, namePattern),
+      request.retention,
+      Date.now(),
+      newDatabaseId,
+    );
+
+    for (const clone of expiredClones) {
+      try {
+        await notion.blocks.delete({ block_id: clone.id });
+        archivedClones.push(clone);
+        console.log(`🗄️ Archived earlier clone "${clone.title}"`);
+      } catch (error) {
+        console.error(`❌ Error archiving earlier clone "${clone.title}":`, error);
+      }
+    }
+    await forgetClones(request, archivedClones);
+  } catch (error) {
+    console.error("❌ Error applying the retention policy:", error);
+  }
+
+  return archivedClones;
+}
@@ -0,0 +1,191 @@
+import { normalizeNotionId } from "./notion.js";
+import { type PropertyRulesConfig, getHierarchyFields } from "./property-rules.js";
+import type { CloneRequest } from "./request.js";
+import { getSchemaStore } from "./stores.js";
+
+// Property IDs, names and types of a source database, saved after each run. Notion keeps a
+// property's ID when it is renamed, so renames can be told apart from removals.
+export interface SchemaFingerprint {
+  sourceDatabaseId: string;
+  takenAt: string;
+  properties: { [propertyId: string]: { name: string; type: string } };
+}
+
+// Changes to the source schema since the last run
+export interface SchemaDrift {
+  previousRunAt: string;
+  added: { name: string; type: string }[];
+  removed: { name: string; type: string }[];
+  renamed: { from: string; to: string }[];
+  retyped: { name: string; from: string; to: string }[];
+  missingDependencies: string[]; // properties the clone depends on that are gone or changed
+}
+
+export function takeSchemaFingerprint(
+  database: any,
+  takenAt: Date = new Date(),
+): SchemaFingerprint {
+  return {
+    sourceDatabaseId: normalizeNotionId(database.id),
+    takenAt: takenAt.toISOString(),
+    properties: Object.fromEntries(
+      Object.entries(database.properties).map(([name, prop]: [string, any]) => [
+        prop.id,
+        { name, type: prop.type },
+      ]),
+    ),
+  };
+}
+
+// Compare two fingerprints of a source; hierarchy fields and renamed or retyped properties
+// that are gone are missing dependencies
+export function compareSchemas(
+  previous: SchemaFingerprint,
+  current: SchemaFingerprint,
+  rules: PropertyRulesConfig,
+): SchemaDrift {
+  const drift: SchemaDrift = {
+    previousRunAt: previous.takenAt,
+    added: [],
+    removed: [],
+    renamed: [],
+    retyped: [],
+    missingDependencies: [],
+  };
+
+  for (const [id, prop] of Object.entries(current.properties)) {
+    const before = previous.properties[id];
+    if (!before) {
+      drift.added.push(prop);
+      continue;
+    }
+    if (before.name !== prop.name) {
+      drift.renamed.push({ from: before.name, to: prop.name });
+    }
+    if (before.type !== prop.type) {
+      drift.retyped.push({ name: prop.name, from: before.type, to: prop.type });
+    }
+  }
+
+  for (const [id, prop] of Object.entries(previous.properties)) {
+    if (!current.properties[id]) {
+      drift.removed.push(prop);
+    }
+  }
+
+  const typesBefore = new Map(Object.values(previous.properties).map((p) => [p.name, p.type]));
+  const typesNow = new Map(Object.values(current.properties).map((p) => [p.name, p.type]));
+  const hierarchyFields = getHierarchyFields(rules);
+  const ruleProperties = rules.rules
+    .filter((rule) => rule.action === "rename" || rule.action === "changeType")
+    .map((rule) => rule.property);
+
+  for (const name of new Set([...hierarchyFields, ...ruleProperties])) {
+    const isGone = typesBefore.has(name) && !typesNow.has(name);
+    const isNoLongerRelation =
+      hierarchyFields.includes(name) &&
+      typesBefore.get(name) === "relation" &&
+      typesNow.has(name) &&
+      typesNow.get(name) !== "relation";
+
+    if (isGone || isNoLongerRelation) {
+      drift.missingDependencies.push(name);
+    }
+  }
+
+  return drift;
+}
+
+function hasSchemaDrift(drift: SchemaDrift): boolean {
+  return (
+    drift.added.length + drift.removed.length + drift.renamed.length + drift.retyped.length > 0
+  );
+}
+
+// What a run found wrong with its source schema
+export interface SchemaCheck {
+  schemaDrift?: SchemaDrift;
+  schemaProblems: string[];
+}
+
+// Check the source schema on every run: the properties the clone depends on against the current
+// schema, and the changes since the last run. The "fail" policy stops the run when the source
+// has no hierarchy relation or lost a property the clone depended on at the last run; rule
+// properties the source never had are only reported.
+export async function checkSourceSchema(
+  sourceDatabase: any,
+  request: CloneRequest,
+): Promise<SchemaCheck> {
+  const schemaProblems = findSchemaProblems(sourceDatabase.properties, request.rules);
+  for (const problem of schemaProblems) {
+    console.warn(`⚠️ Source schema: ${problem}`);
+  }
+
+  const previous = await getSchemaStore().get(normalizeNotionId(sourceDatabase.id));
+  const drift = previous
+    ? compareSchemas(previous, takeSchemaFingerprint(sourceDatabase), request.rules)
+    : undefined;
+
+  if (request.options.schemaDriftPolicy === "fail") {
+    const hierarchyProblem = findHierarchyProblem(sourceDatabase.properties, request.rules);
+    const reasons = [
+      ...(hierarchyProblem ? [hierarchyProblem] : []),
+      ...(drift?.missingDependencies ?? []).map(
+        (name) => `Property "${name}" is gone or changed since the run of ${drift?.previousRunAt}`,
+      ),
+    ];
+    if (reasons.length > 0) {
+      throw new Error(`Source schema does not fit the clone: ${reasons.join("; ")}`);
+    }
+  }
+
+  if (!drift || !hasSchemaDrift(drift)) {
+    return { schemaProblems };
+  }
+
+  console.warn(
+    `⚠️ Source schema changed since ${drift.previousRunAt}: ${drift.added.length} added, ${drift.removed.length} removed, ${drift.renamed.length} renamed, ${drift.retyped.length} retyped`,
+  );
+  return { schemaDrift: drift, schemaProblems };
+}
+
+// Save the source schema for the next run to compare with; a failure is only logged
+export async function saveSchemaFingerprint(sourceDatabase: any): Promise<void> {
+  try {
+    await getSchemaStore().save(takeSchemaFingerprint(sourceDatabase));
+  } catch (error) {
+    console.error("❌ Failed to save the source schema fingerprint:", error);
+  }
+}
+
+// Source properties a clone relies on that are gone: the hierarchy fields (any one of them
+// is enough) and the properties the rules rename or retype
+export function findSchemaProblems(properties: any, rules: PropertyRulesConfig): string[] {
+  const problems: string[] = [];
+  const hierarchyProblem = findHierarchyProblem(properties, rules);
+
+  if (hierarchyProblem) {
+    problems.push(hierarchyProblem);
+  }
+
+  for (const rule of rules.rules) {
+    if (rule.action === "rename" && !(rule.property in properties)) {
+      problems.push(`Property "${rule.property}" (cloned as "${rule.to}") is missing`);
+    }
+    if (rule.action === "changeType" && !(rule.property in properties)) {
+      problems.push(`Property "${rule.property}" (cloned as ${rule.type}) is missing`);
+    }
+  }
+
+  return problems;
+}
+
+// Without any of its hierarchy relations a clone would skip every page as having no Test Suite
+function findHierarchyProblem(properties: any, rules: PropertyRulesConfig): string | undefined {
+  const hierarchyFields = getHierarchyFields(rules);
+
+  if (!hierarchyFields.some((name) => properties[name]?.type === "relation")) {
+    return `No hierarchy relation found (expected one of: ${hierarchyFields.join(", ")})`;
+  }
+  return undefined;
+}
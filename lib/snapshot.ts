@@ -0,0 +1,240 @@
+import { type HierarchyAnalysis, analyzeHierarchy, resolveHierarchy } from "./hierarchy.js";
+import { getDatabaseTitle, getPageTitle, notion } from "./notion.js";
+import { EXPORT_FORMATS, type ExportFormat } from "./options.js";
+import { getPropertyPlainText } from "./property-rules.js";
+import type { ProgressCallback } from "./report.js";
+import type { CloneRequest } from "./request.js";
+import { type SchemaDrift, checkSourceSchema, saveSchemaFingerprint } from "./schema-drift.js";
+import { type SourcePages, fetchSourcePages } from "./source.js";
+
+// Portable copy of a database: the full source schema, the page values as the source holds them
+// and the hierarchy between the pages
+export interface DatabaseSnapshot {
+  version: 1;
+  exportedAt: string;
+  profile: string;
+  sourceDatabaseId: string;
+  title: string;
+  schema: any;
+  pages: { id: string; title: string; properties: any }[];
+  hierarchy: { pageId: string; parentId: string }[];
+}
+
+export interface ExportResponse {
+  success: true;
+  mode: "export";
+  profile: string;
+  format: ExportFormat;
+  fileName: string;
+  contentType: string;
+  content: string;
+  exportedPagesCount: number;
+  matchedPagesCount: number;
+  addedParentPagesCount: number;
+  jobId?: string;
+  retriedRequestsCount: number;
+  rateLimitedCount: number;
+  schemaDrift?: SchemaDrift;
+  schemaProblems?: string[];
+}
+
+// Heading of the Markdown export for pages that are neither in a suite nor a suite themselves
+const UNGROUPED_HEADING = "Without Test Suite";
+
+// Snapshot the fetched source pages as they are: every property of the schema, including the
+// relations, rollups and formulas a clone rebuilds, and the raw values without property rules
+// or value policies. Every page is kept, including the root pages a flat clone skips.
+export function buildDatabaseSnapshot(
+  sourceDatabase: any,
+  source: SourcePages,
+  hierarchy: HierarchyAnalysis,
+  profileName: string,
+  exportedAt: Date = new Date(),
+): DatabaseSnapshot {
+  return {
+    version: 1,
+    exportedAt: exportedAt.toISOString(),
+    profile: profileName,
+    sourceDatabaseId: sourceDatabase.id,
+    title: getDatabaseTitle(sourceDatabase),
+    schema: sourceDatabase.properties,
+    pages: source.pages.map((page) => ({
+      id: page.id,
+      title: getPageTitle(page),
+      properties: page.properties,
+    })),
+    hierarchy: [...hierarchy.parentIdMap].map(([pageId, parentId]) => ({ pageId, parentId })),
+  };
+}
+
+// Quote a CSV field when it contains a separator, a quote or a line break (RFC 4180)
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Flatten a snapshot into CSV: one row per page, one column per property of the source
+export function formatSnapshotCsv(snapshot: DatabaseSnapshot): string {
+  const columns = Object.keys(snapshot.schema);
+  const parentIds = new Map(snapshot.hierarchy.map(({ pageId, parentId }) => [pageId, parentId]));
+  const rows = [
+    ["Page ID", "Parent ID", ...columns],
+    ...snapshot.pages.map((page) => [
+      page.id,
+      parentIds.get(page.id) ?? "",
+      ...columns.map((name) => getPropertyPlainText(page.properties[name])),
+    ]),
+  ];
+
+  return `${rows.map((row) => row.map(toCsvField).join(",")).join("\r\n")}\r\n`;
+}
+
+// Render a snapshot as a Markdown checklist grouped by Test Suite, the title of each page's
+// parent. Items are ticked by their first checkbox property; root suite pages become the
+// headings instead of items.
+export function formatSnapshotMarkdown(snapshot: DatabaseSnapshot): string {
+  const parentIds = new Map(snapshot.hierarchy.map(({ pageId, parentId }) => [pageId, parentId]));
+  const suiteIds = new Set(parentIds.values());
+  const titles = new Map(snapshot.pages.map((page) => [page.id, page.title]));
+  const groups = new Map<string, string[]>();
+
+  for (const page of snapshot.pages) {
+    const parentId = parentIds.get(page.id);
+    const suite = parentId ? titles.get(parentId) : undefined;
+    if (!suite && suiteIds.has(page.id)) {
+      continue;
+    }
+
+    const checkbox: any = Object.values(page.properties).find(
+      (value: any) => value?.type === "checkbox",
+    );
+    const heading = suite || UNGROUPED_HEADING;
+    groups.set(heading, [
+      ...(groups.get(heading) ?? []),
+      `- [${checkbox?.checkbox ? "x" : " "}] ${page.title}`,
+    ]);
+  }
+
+  const sections = [...groups].map(([heading, items]) => `## ${heading}\n\n${items.join("\n")}`);
+  return `# ${snapshot.title}\n\n${sections.join("\n\n")}\n`;
+}
+
+function formatSnapshot(snapshot: DatabaseSnapshot, format: ExportFormat): string {
+  switch (format) {
+    case "csv":
+      return formatSnapshotCsv(snapshot);
+    case "markdown":
+      return formatSnapshotMarkdown(snapshot);
+    default:
+      return `${JSON.stringify(snapshot, null, 2)}\n`;
+  }
+}
+
+// File name of an export: the database title reduced to ASCII (for Content-Disposition),
+// the export date and the format's extension
+function getExportFileName(snapshot: DatabaseSnapshot, format: ExportFormat): string {
+  const baseName = snapshot.title.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${baseName || "database"}-${snapshot.exportedAt.slice(0, 10)}.${EXPORT_FORMATS[format].extension}`;
+}
+
+// Validate a snapshot sent for restore; it must be a JSON export (version 1)
+export function parseSnapshot(raw: any): DatabaseSnapshot {
+  if (typeof raw !== "object" || raw === null || raw.version !== 1) {
+    throw new Error("Invalid request option snapshot: must be a version 1 JSON export");
+  }
+
+  if (
+    typeof raw.sourceDatabaseId !== "string" ||
+    typeof raw.schema !== "object" ||
+    raw.schema === null ||
+    !Array.isArray(raw.pages) ||
+    !Array.isArray(raw.hierarchy)
+  ) {
+    throw new Error(
+      "Invalid request option snapshot: needs sourceDatabaseId, schema, pages and hierarchy",
+    );
+  }
+
+  for (const page of raw.pages) {
+    if (typeof page?.id !== "string" || typeof page.properties !== "object" || !page.properties) {
+      throw new Error(`Invalid request option snapshot: bad page ${JSON.stringify(page?.id)}`);
+    }
+  }
+
+  return raw;
+}
+
+// Turn a snapshot back into the source database, pages and hierarchy a restore starts from
+export function readSnapshotSource(snapshot: DatabaseSnapshot): {
+  sourceDatabase: any;
+  source: SourcePages;
+  hierarchy: HierarchyAnalysis;
+} {
+  const pages = snapshot.pages.map((page) => ({ id: page.id, properties: page.properties }));
+  const pageIds = new Set(pages.map((page) => page.id));
+  const parentCandidates = new Map<string, string[]>();
+
+  for (const { pageId, parentId } of snapshot.hierarchy) {
+    if (pageIds.has(pageId) && pageIds.has(parentId)) {
+      parentCandidates.set(pageId, [...(parentCandidates.get(pageId) ?? []), parentId]);
+    }
+  }
+
+  return {
+    sourceDatabase: {
+      id: snapshot.sourceDatabaseId,
+      title: [{ type: "text", plain_text: snapshot.title, text: { content: snapshot.title } }],
+      properties: snapshot.schema,
+    },
+    source: {
+      pages,
+      matchedPagesCount: snapshot.pages.length,
+      addedParentPagesCount: 0,
+    },
+    hierarchy: resolveHierarchy(pages, parentCandidates),
+  };
+}
+
+// Export mode: fetch the source like a clone and return the snapshot as a JSON, CSV or Markdown
+// file. Nothing is written to Notion.
+export async function runExport(
+  request: CloneRequest,
+  onProgress?: ProgressCallback,
+): Promise<ExportResponse> {
+  const { profileName, profile, options, rules, query } = request;
+
+  console.log("📦 Starting database export...");
+  console.log(`🗂️ Profile: ${profileName}`);
+  console.log(`📊 Source Database ID: ${profile.sourceDatabaseId}`);
+  console.log(`📄 Format: ${options.format}`);
+
+  await onProgress?.({ phase: "retrieving_source" });
+  const sourceDatabase = await notion.databases.retrieve({
+    database_id: profile.sourceDatabaseId,
+  });
+  const schemaCheck = await checkSourceSchema(sourceDatabase, request);
+
+  await onProgress?.({ phase: "fetching_pages" });
+  const source = await fetchSourcePages(profile.sourceDatabaseId, rules, query);
+  const hierarchy = analyzeHierarchy(source.pages, rules);
+  const snapshot = buildDatabaseSnapshot(sourceDatabase, source, hierarchy, profileName);
+
+  console.log(`📦 Exported ${snapshot.pages.length} pages as ${options.format}`);
+
+  const exportResponse: ExportResponse = {
+    success: true,
+    mode: "export",
+    profile: profileName,
+    format: options.format,
+    fileName: getExportFileName(snapshot, options.format),
+    contentType: EXPORT_FORMATS[options.format].contentType,
+    content: formatSnapshot(snapshot, options.format),
+    exportedPagesCount: snapshot.pages.length,
+    matchedPagesCount: source.matchedPagesCount,
+    addedParentPagesCount: source.addedParentPagesCount,
+    ...notion.getRunStats(),
+    ...schemaCheck,
+  };
+
+  await saveSchemaFingerprint(sourceDatabase);
+  return exportResponse;
+}
@@ -0,0 +1,99 @@
+import { notion } from "./notion.js";
+import type { SourceQuery } from "./options.js";
+import type { PropertyRulesConfig } from "./property-rules.js";
+
+export interface SourcePages {
+  pages: any[];
+  matchedPagesCount: number;
+  addedParentPagesCount: number;
+}
+
+// Fetch the ancestors of the given pages that are missing from the list, following the
+// parent hierarchy fields, and append them to it. Returns how many pages were added.
+async function addMissingAncestors(pages: any[], rules: PropertyRulesConfig): Promise<number> {
+  const knownIds = new Set(pages.map((page) => page.id));
+  let frontier = pages;
+  let addedCount = 0;
+
+  while (frontier.length > 0) {
+    const missingIds = new Set<string>();
+
+    for (const page of frontier) {
+      for (const fieldName of rules.hierarchy.parentFields) {
+        const property = page.properties?.[fieldName];
+        if (property?.type !== "relation") {
+          continue;
+        }
+
+        for (const relatedItem of property.relation) {
+          if (!knownIds.has(relatedItem.id)) {
+            missingIds.add(relatedItem.id);
+          }
+        }
+      }
+    }
+
+    frontier = [];
+    for (const pageId of missingIds) {
+      knownIds.add(pageId);
+      try {
+        const parentPage = await notion.pages.retrieve({ page_id: pageId });
+        pages.push(parentPage);
+        frontier.push(parentPage);
+        addedCount++;
+      } catch (error) {
+        console.error(`❌ Error fetching parent page ${pageId}:`, error);
+      }
+    }
+  }
+
+  return addedCount;
+}
+
+// Fetch the pages to clone from the source database: every page, or the pages matching the
+// query plus the parents they need
+export async function fetchSourcePages(
+  sourceDatabaseId: string,
+  rules: PropertyRulesConfig,
+  query: SourceQuery,
+): Promise<SourcePages> {
+  let allPages: any[] = [];
+  let hasMore = true;
+  let startCursor: string | undefined = undefined;
+
+  console.log(
+    query.filter
+      ? "🔍 Fetching matching pages from source database..."
+      : "🔍 Fetching all pages from source database...",
+  );
+
+  // Get all (matching) pages from source database
+  while (hasMore) {
+    const response = await notion.databases.query({
+      database_id: sourceDatabaseId,
+      start_cursor: startCursor,
+      page_size: 100,
+      filter: query.filter,
+      sorts: query.sorts,
+    });
+
+    allPages = allPages.concat(response.results);
+    hasMore = response.has_more;
+    startCursor = response.next_cursor || undefined;
+
+    console.log(`📄 Fetched ${allPages.length} pages so far...`);
+  }
+
+  const matchedPagesCount = allPages.length;
+  let addedParentPagesCount = 0;
+
+  // A partial clone still needs the parents of the matching pages for the Test Suite values
+  if (query.filter) {
+    addedParentPagesCount = await addMissingAncestors(allPages, rules);
+    console.log(`👪 Added ${addedParentPagesCount} parent pages outside the filter`);
+  }
+
+  console.log(`📊 Found ${allPages.length} total pages to copy`);
+
+  return { pages: allPages, matchedPagesCount, addedParentPagesCount };
+}
@@ -0,0 +1,257 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CloneJob } from "./jobs.js";
+import type { CloneRegistry } from "./retention.js";
+import type { SchemaFingerprint } from "./schema-drift.js";
+import type { DatabaseSnapshot } from "./snapshot.js";
+import type { SyncState } from "./sync.js";
+
+export interface SchemaStore {
+  get(sourceDatabaseId: string): Promise<SchemaFingerprint | undefined>;
+  save(fingerprint: SchemaFingerprint): Promise<void>;
+}
+
+export interface CloneRegistryStore {
+  get(profileName: string): Promise<CloneRegistry | undefined>;
+  save(registry: CloneRegistry): Promise<void>;
+}
+
+export interface SyncStateStore {
+  get(targetDatabaseId: string): Promise<SyncState | undefined>;
+  save(state: SyncState): Promise<void>;
+}
+
+export interface JobStore {
+  get(id: string): Promise<CloneJob | undefined>;
+  save(job: CloneJob): Promise<void>;
+}
+
+export interface SnapshotStore {
+  get(jobId: string): Promise<DatabaseSnapshot | undefined>;
+  save(jobId: string, snapshot: DatabaseSnapshot): Promise<void>;
+}
+
+// JSON documents by key, within one namespace (jobs, schemas, ...) of the configured backend
+export interface KeyValueStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+}
+
+// Finished and abandoned jobs expire from Redis after a week
+const JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const REDIS_KEY_PREFIX = "notion-clone";
+
+// Pick the store backend from JOB_STORE: "redis" (default when KV_REST_API_URL is set) is shared
+// by every function instance; "memory" and "file" only work locally, so deployments refuse them.
+export function getKeyValueStore(namespace: string): KeyValueStore {
+  const storeType = process.env.JOB_STORE || (process.env.KV_REST_API_URL ? "redis" : "memory");
+
+  if (storeType === "redis") {
+    return createRedisKeyValueStore(namespace);
+  }
+  if (storeType !== "memory" && storeType !== "file") {
+    throw new Error(`Invalid JOB_STORE environment variable: "${storeType}"`);
+  }
+  if (process.env.VERCEL_ENV === "production" || process.env.VERCEL_ENV === "preview") {
+    throw new Error(
+      `JOB_STORE environment variable must be "redis" on Vercel: "${storeType}" is not shared between function instances`,
+    );
+  }
+
+  if (storeType === "file") {
+    return createFileKeyValueStore(
+      join(process.env.JOB_STORE_DIR || join(tmpdir(), "notion-clone-jobs"), namespace),
+    );
+  }
+  return getMemoryKeyValueStore(namespace);
+}
+
+const memoryNamespaces = new Map<string, Map<string, string>>();
+
+function getMemoryKeyValueStore(namespace: string): KeyValueStore {
+  const values = memoryNamespaces.get(namespace) ?? new Map<string, string>();
+  memoryNamespaces.set(namespace, values);
+
+  return {
+    async get(key) {
+      return values.get(key);
+    },
+    async set(key, value) {
+      values.set(key, value);
+    },
+  };
+}
+
+function createFileKeyValueStore(directory: string): KeyValueStore {
+  return {
+    async get(key) {
+      try {
+        return await readFile(join(directory, `${key}.json`), "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+    async set(key, value) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(join(directory, `${key}.json`), value);
+    },
+  };
+}
+
+// Redis over the Upstash REST API, as provisioned by the Vercel marketplace integration
+function createRedisKeyValueStore(namespace: string): KeyValueStore {
+  const url = process.env.KV_REST_API_URL;
+  const token = process.env.KV_REST_API_TOKEN;
+
+  if (!url || !token) {
+    throw new Error(
+      'KV_REST_API_URL and KV_REST_API_TOKEN environment variables are required for JOB_STORE "redis"',
+    );
+  }
+
+  const sendCommand = async (command: Array<string | number>) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify(command),
+    });
+    const body: any = await response.json().catch(() => ({}));
+
+    if (!response.ok || body.error) {
+      throw new Error(`Redis ${command[0]} failed: ${body.error ?? `HTTP ${response.status}`}`);
+    }
+    return body.result;
+  };
+
+  return {
+    async get(key) {
+      const value = await sendCommand(["GET", `${REDIS_KEY_PREFIX}:${namespace}:${key}`]);
+      return value ?? undefined;
+    },
+    async set(key, value, ttlSeconds) {
+      const redisKey = `${REDIS_KEY_PREFIX}:${namespace}:${key}`;
+      await sendCommand(
+        ttlSeconds ? ["SET", redisKey, value, "EX", ttlSeconds] : ["SET", redisKey, value],
+      );
+    },
+  };
+}
+
+export function getJobStore(): JobStore {
+  return createJobStore(getKeyValueStore("jobs"));
+}
+
+export function createFileJobStore(directory: string): JobStore {
+  return createJobStore(createFileKeyValueStore(directory));
+}
+
+// Job IDs come from the URL; only UUIDs may become keys
+function checkJobId(id: string): string {
+  if (!/^[0-9a-f-]{36}$/i.test(id)) {
+    throw new Error(`Invalid job ID format: "${id}"`);
+  }
+  return id;
+}
+
+function createJobStore(values: KeyValueStore): JobStore {
+  return {
+    async get(id) {
+      const value = await values.get(checkJobId(id));
+      return value === undefined ? undefined : JSON.parse(value);
+    },
+    async save(job) {
+      await values.set(checkJobId(job.id), JSON.stringify(job, null, 2), JOB_TTL_SECONDS);
+    },
+  };
+}
+
+// The snapshot of a restore job, kept once by job ID instead of on the job, which is saved again
+// on every progress update. It expires with the job.
+export function getSnapshotStore(): SnapshotStore {
+  const values = getKeyValueStore("snapshots");
+
+  return {
+    async get(jobId) {
+      const value = await values.get(checkJobId(jobId));
+      return value === undefined ? undefined : JSON.parse(value);
+    },
+    async save(jobId, snapshot) {
+      await values.set(checkJobId(jobId), JSON.stringify(snapshot), JOB_TTL_SECONDS);
+    },
+  };
+}
+
+// Schema fingerprints are kept by source database ID next to the jobs
+export function getSchemaStore(): SchemaStore {
+  return createSchemaStore(getKeyValueStore("schemas"));
+}
+
+export function createFileSchemaStore(directory: string): SchemaStore {
+  return createSchemaStore(createFileKeyValueStore(directory));
+}
+
+// Database IDs become keys; only normalized IDs are accepted
+function checkDatabaseId(databaseId: string): string {
+  if (!/^[0-9a-f]{32}$/i.test(databaseId)) {
+    throw new Error(`Invalid database ID format: "${databaseId}"`);
+  }
+  return databaseId;
+}
+
+function createSchemaStore(values: KeyValueStore): SchemaStore {
+  return {
+    async get(sourceDatabaseId) {
+      const value = await values.get(checkDatabaseId(sourceDatabaseId));
+      return value === undefined ? undefined : JSON.parse(value);
+    },
+    async save(fingerprint) {
+      await values.set(
+        checkDatabaseId(fingerprint.sourceDatabaseId),
+        JSON.stringify(fingerprint, null, 2),
+      );
+    },
+  };
+}
+
+// What each sync last wrote, kept by target database ID
+export function getSyncStateStore(): SyncStateStore {
+  return createSyncStateStore(getKeyValueStore("sync"));
+}
+
+function createSyncStateStore(values: KeyValueStore): SyncStateStore {
+  return {
+    async get(targetDatabaseId) {
+      const value = await values.get(checkDatabaseId(targetDatabaseId));
+      return value === undefined ? undefined : JSON.parse(value);
+    },
+    async save(state) {
+      await values.set(checkDatabaseId(state.targetDatabaseId), JSON.stringify(state, null, 2));
+    },
+  };
+}
+
+// The clones each profile created, kept by profile name
+export function getCloneRegistryStore(): CloneRegistryStore {
+  return createCloneRegistryStore(getKeyValueStore("clones"));
+}
+
+function createCloneRegistryStore(values: KeyValueStore): CloneRegistryStore {
+  // Profile names come from the server configuration but may hold any character, including
+  // path separators for the file store
+  const toKey = (profileName: string) => encodeURIComponent(profileName);
+
+  return {
+    async get(profileName) {
+      const value = await values.get(toKey(profileName));
+      return value === undefined ? undefined : JSON.parse(value);
+    },
+    async save(registry) {
+      await values.set(toKey(registry.profile), JSON.stringify(registry, null, 2));
+    },
+  };
+}
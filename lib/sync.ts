@@ -0,0 +1,485 @@
+import { type BlockCopyStats, copyBlockChildren } from "./blocks.js";
+import {
+  type UnrecreatedProperty,
+  collectDerivedProperties,
+  recreateDerivedProperties,
+} from "./derived-properties.js";
+import { getErrorMessage } from "./errors.js";
+import {
+  type OrphanPageCounts,
+  analyzeHierarchy,
+  countOrphanPages,
+  getSuitePath,
+  getSuiteTitle,
+  isSkippedOrphan,
+} from "./hierarchy.js";
+import { BATCH_SIZE, getPageTitle, normalizeNotionId, notion } from "./notion.js";
+import type { CloneOptions, HierarchyMode } from "./options.js";
+import {
+  type PropertyRulesConfig,
+  buildCloneSchema,
+  buildClonedPageProperties,
+  getPropertyPlainText,
+  getTargetPropertyName,
+} from "./property-rules.js";
+import {
+  NESTED_PARENT_PROPERTY,
+  buildClonedRelationsMap,
+  buildRelationSchema,
+  getClonedRelationProperties,
+  linkClonedHierarchy,
+  remapPageRelations,
+} from "./relations.js";
+import {
+  type PageIssue,
+  type ProgressCallback,
+  type RunReport,
+  buildRunReport,
+  collectDroppedProperties,
+  createPhaseTimer,
+} from "./report.js";
+import type { CloneRequest } from "./request.js";
+import { type SchemaDrift, checkSourceSchema, saveSchemaFingerprint } from "./schema-drift.js";
+import { fetchSourcePages } from "./source.js";
+import { getSyncStateStore } from "./stores.js";
+import { updateTriggerPage } from "./trigger.js";
+
+export interface SyncResponse {
+  success: boolean;
+  mode: "sync";
+  targetDatabaseId: string;
+  targetDatabaseUrl: string;
+  message: string;
+  createdPagesCount: number;
+  updatedPagesCount: number;
+  unchangedPagesCount: number;
+  archivedPagesCount: number;
+  failedPagesCount: number;
+  orphanPages: OrphanPageCounts;
+  addedProperties: string[];
+  remappedRelationsCount: number;
+  unresolvedRelationsCount: number;
+  hierarchyMode: HierarchyMode;
+  linkedSubItemsCount: number;
+  copiedBlocksCount: number;
+  failedBlocksCount: number;
+  skippedBlocks: { [blockType: string]: number };
+  unrecreatedProperties: UnrecreatedProperty[];
+  profile: string;
+  matchedPagesCount: number;
+  addedParentPagesCount: number;
+  jobId?: string;
+  retriedRequestsCount: number;
+  rateLimitedCount: number;
+  triggerPageUpdated?: boolean;
+  report: RunReport;
+  schemaDrift?: SchemaDrift;
+  schemaProblems?: string[];
+}
+
+// What a sync last wrote for one source page: the source edit it copied and the suite it
+// filed the page under
+export interface SyncedPageState {
+  sourceEditedTime: string;
+  suiteTitle?: string;
+  suitePath: string[];
+}
+
+// Sync state of one target database, by normalized source page ID
+export interface SyncState {
+  targetDatabaseId: string;
+  pages: { [sourcePageId: string]: SyncedPageState };
+}
+
+// The pages of a sync target: those with a Source ID by the source page they were cloned
+// from, and those without one by title
+interface TargetPages {
+  syncedPages: Map<string, string>; // normalized source page ID -> target page ID
+  untrackedPages: Map<string, string[]>; // title -> target page IDs
+}
+
+async function fetchTargetPages(
+  targetDatabaseId: string,
+  rules: PropertyRulesConfig,
+): Promise<TargetPages> {
+  const syncedPages = new Map<string, string>();
+  const untrackedPages = new Map<string, string[]>();
+  let hasMore = true;
+  let startCursor: string | undefined = undefined;
+
+  while (hasMore) {
+    const response: any = await notion.databases.query({
+      database_id: targetDatabaseId,
+      start_cursor: startCursor,
+      page_size: 100,
+    });
+
+    for (const page of response.results) {
+      const sourceId = getPropertyPlainText(page.properties[rules.sourceIdProperty]);
+      if (!sourceId) {
+        const title = getPageTitle(page);
+        untrackedPages.set(title, [...(untrackedPages.get(title) ?? []), page.id]);
+      } else if (!syncedPages.has(normalizeNotionId(sourceId))) {
+        syncedPages.set(normalizeNotionId(sourceId), page.id);
+      }
+    }
+
+    hasMore = response.has_more;
+    startCursor = response.next_cursor || undefined;
+  }
+
+  console.log(`🔎 Found ${syncedPages.size} synced pages in the target database`);
+  return { syncedPages, untrackedPages };
+}
+
+// Clones made before the Source ID column existed have no Source ID on their pages. A source
+// page adopts the target page with the same title when the title is unique on both sides, so
+// the first sync fills in the Source ID instead of duplicating the page.
+function findAdoptablePage(
+  page: any,
+  untrackedPages: Map<string, string[]>,
+  sourceTitleCounts: Map<string, number>,
+): string | undefined {
+  const title = getPageTitle(page);
+  const candidates = untrackedPages.get(title);
+
+  if (candidates?.length !== 1 || sourceTitleCounts.get(title) !== 1) {
+    return undefined;
+  }
+  untrackedPages.delete(title);
+  return candidates[0];
+}
+
+// Whether a source page needs writing again: it was edited since the last sync copied it, or
+// it moved to another suite. Pages without a saved state are always written.
+export function isSourcePageChanged(
+  sourcePage: any,
+  suite: Omit<SyncedPageState, "sourceEditedTime">,
+  syncedState: SyncedPageState | undefined,
+): boolean {
+  return (
+    !syncedState ||
+    sourcePage.last_edited_time !== syncedState.sourceEditedTime ||
+    suite.suiteTitle !== syncedState.suiteTitle ||
+    suite.suitePath.join("\n") !== syncedState.suitePath.join("\n")
+  );
+}
+
+// Properties written when a sync updates a page. Value policies reset the columns testers fill
+// in, so they only apply when a page is created; updates leave those columns as they are.
+export function buildSyncedPageProperties(
+  page: any,
+  suite: Omit<SyncedPageState, "sourceEditedTime">,
+  options: CloneOptions,
+  rules: PropertyRulesConfig,
+): any {
+  const properties = buildClonedPageProperties(
+    page,
+    suite.suiteTitle,
+    { ...options, valuePolicies: {} },
+    rules,
+    suite.suitePath,
+  );
+
+  for (const [name, valuePolicy] of Object.entries(options.valuePolicies)) {
+    if (valuePolicy.policy !== "keep") {
+      delete properties[getTargetPropertyName(name, rules)];
+    }
+  }
+  return properties;
+}
+
+// Schema entries taken from the source carry its property id and name, which a database
+// update would read as a rename; keep only the type configuration
+function toAddedPropertyConfig(prop: any): any {
+  const { id: _id, name: _name, ...config } = prop;
+  return config;
+}
+
+// Sync mode: bring the profile's existing clone up to date, matching pages by Source ID.
+// New pages are created, edited ones updated and pages gone from the source archived.
+export async function runSync(
+  request: CloneRequest,
+  onSyncProgress?: ProgressCallback,
+): Promise<SyncResponse> {
+  const { profileName, profile, options, rules, query } = request;
+  const timer = createPhaseTimer(onSyncProgress);
+  const onProgress = timer.onProgress;
+  const sourceDatabaseId = profile.sourceDatabaseId;
+  const targetDatabaseId = profile.syncTargetDatabaseId!;
+
+  console.log("🔄 Starting database sync...");
+  console.log(`🗂️ Profile: ${profileName}`);
+  console.log(`📊 Source Database ID: ${sourceDatabaseId}`);
+  console.log(`🎯 Target Database ID: ${targetDatabaseId}`);
+
+  await onProgress({ phase: "retrieving_source" });
+  const sourceDatabase = await notion.databases.retrieve({ database_id: sourceDatabaseId });
+  const targetDatabase: any = await notion.databases.retrieve({ database_id: targetDatabaseId });
+  const schemaCheck = await checkSourceSchema(sourceDatabase, request);
+
+  await onProgress({ phase: "fetching_pages" });
+  const source = await fetchSourcePages(sourceDatabaseId, rules, query);
+  const hierarchy = analyzeHierarchy(source.pages, rules);
+
+  // Add the columns and relations the source gained since the target was created
+  await onProgress({ phase: "updating_schema" });
+  const relationProperties = getClonedRelationProperties(sourceDatabase.properties, options, rules);
+  const schema = {
+    ...buildCloneSchema(sourceDatabase.properties, rules),
+    ...buildRelationSchema(relationProperties, sourceDatabaseId, targetDatabaseId),
+  };
+  const addedProperties = Object.keys(schema).filter(
+    (name) => !(name in targetDatabase.properties),
+  );
+
+  if (addedProperties.length > 0) {
+    await notion.databases.update({
+      database_id: targetDatabaseId,
+      properties: Object.fromEntries(
+        addedProperties.map((name) => [name, toAddedPropertyConfig(schema[name])]),
+      ),
+    });
+    console.log(`🔧 Added properties to the target: ${addedProperties.join(", ")}`);
+  }
+
+  await onProgress({ phase: "syncing_pages", pagesTotal: source.pages.length });
+  const { syncedPages, untrackedPages } = await fetchTargetPages(targetDatabaseId, rules);
+  const syncStateStore = getSyncStateStore();
+  const previousState = await syncStateStore.get(normalizeNotionId(targetDatabaseId));
+  const nextState: SyncState = { targetDatabaseId: normalizeNotionId(targetDatabaseId), pages: {} };
+  const sourceTitleCounts = new Map<string, number>();
+  for (const page of source.pages) {
+    const title = getPageTitle(page);
+    sourceTitleCounts.set(title, (sourceTitleCounts.get(title) ?? 0) + 1);
+  }
+  const pageIdMap = new Map<string, string>(); // source page ID -> synced page ID
+  const changedPages: any[] = [];
+  const keptSourceIds = new Set<string>();
+  const blockStats: BlockCopyStats = {
+    copiedBlocksCount: 0,
+    failedBlocksCount: 0,
+    skippedBlocks: {},
+  };
+  const skippedPages: PageIssue[] = [];
+  const failedPages: PageIssue[] = [];
+  const droppedPages: PageIssue[] = [];
+  let createdPagesCount = 0;
+  let updatedPagesCount = 0;
+  let unchangedPagesCount = 0;
+  let failedPagesCount = 0;
+
+  for (let i = 0; i < source.pages.length; i += BATCH_SIZE) {
+    const batch = source.pages.slice(i, i + BATCH_SIZE);
+
+    const batchPromises = batch.map(async (page) => {
+      if (isSkippedOrphan(page, hierarchy, options)) {
+        skippedPages.push({
+          id: page.id,
+          title: getPageTitle(page),
+          reason: "No parent found - skipping page without Test Suite",
+        });
+        return;
+      }
+
+      const sourceId = normalizeNotionId(page.id);
+      const suite = {
+        suiteTitle: getSuiteTitle(page, hierarchy, options),
+        suitePath: getSuitePath(page, hierarchy, options),
+      };
+      const syncedState = previousState?.pages[sourceId];
+      const syncedPageId =
+        syncedPages.get(sourceId) ?? findAdoptablePage(page, untrackedPages, sourceTitleCounts);
+      keptSourceIds.add(sourceId);
+
+      if (syncedPageId) {
+        pageIdMap.set(page.id, syncedPageId);
+        if (syncedPages.has(sourceId) && !isSourcePageChanged(page, suite, syncedState)) {
+          nextState.pages[sourceId] = syncedState!;
+          unchangedPagesCount++;
+          return;
+        }
+      }
+
+      try {
+        if (syncedPageId) {
+          await notion.pages.update({
+            page_id: syncedPageId,
+            properties: buildSyncedPageProperties(page, suite, options, rules),
+          });
+          updatedPagesCount++;
+        } else {
+          const created = await notion.pages.create({
+            parent: { type: "database_id", database_id: targetDatabaseId },
+            properties: buildClonedPageProperties(
+              page,
+              suite.suiteTitle,
+              options,
+              rules,
+              suite.suitePath,
+            ),
+          });
+          pageIdMap.set(page.id, created.id);
+          createdPagesCount++;
+
+          // Page bodies are copied when a page is created; later syncs only update properties
+          if (options.copyContent) {
+            try {
+              const failedBlocksCount = await copyBlockChildren(page.id, created.id, blockStats);
+              if (failedBlocksCount > 0) {
+                throw new Error(`${failedBlocksCount} blocks could not be appended`);
+              }
+            } catch (error) {
+              console.error(`❌ Error copying content of page "${getPageTitle(page)}":`, error);
+              droppedPages.push({
+                id: page.id,
+                title: getPageTitle(page),
+                reason: `Page content not copied: ${getErrorMessage(error)}`,
+              });
+            }
+          }
+        }
+        changedPages.push(page);
+        nextState.pages[sourceId] = { sourceEditedTime: page.last_edited_time, ...suite };
+      } catch (error) {
+        failedPagesCount++;
+        console.error(`❌ Error syncing page "${getPageTitle(page)}":`, error);
+        failedPages.push({
+          id: page.id,
+          title: getPageTitle(page),
+          reason: getErrorMessage(error),
+        });
+      }
+    });
+
+    await Promise.allSettled(batchPromises);
+    await onProgress({
+      phase: "syncing_pages",
+      pagesDone: Math.min(i + BATCH_SIZE, source.pages.length),
+      pagesTotal: source.pages.length,
+      failedPagesCount,
+    });
+  }
+
+  console.log(
+    `🔄 Pages synced: ${createdPagesCount} created, ${updatedPagesCount} updated, ${unchangedPagesCount} unchanged, ${failedPagesCount} failed`,
+  );
+
+  // Archive the synced pages whose source page was deleted or no longer matches the query
+  await onProgress({ phase: "archiving_pages" });
+  const deletedPageIds = [...syncedPages.entries()]
+    .filter(([sourceId]) => !keptSourceIds.has(sourceId))
+    .map(([, syncedPageId]) => syncedPageId);
+  let archivedPagesCount = 0;
+
+  for (let i = 0; i < deletedPageIds.length; i += BATCH_SIZE) {
+    const results = await Promise.allSettled(
+      deletedPageIds
+        .slice(i, i + BATCH_SIZE)
+        .map((pageId) => notion.pages.update({ page_id: pageId, archived: true })),
+    );
+
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        archivedPagesCount++;
+      } else {
+        console.error("❌ Error archiving page deleted at the source:", result.reason);
+      }
+    }
+  }
+  console.log(`🗄️ Archived ${archivedPagesCount} pages deleted at the source`);
+
+  // Relations and sub-item links are rewritten on the pages this run created or updated
+  await onProgress({ phase: "linking_relations" });
+  let remappedRelationsCount = 0;
+  let unresolvedRelationsCount = 0;
+
+  if (Object.keys(relationProperties).length > 0) {
+    const remapResult = await remapPageRelations(
+      changedPages,
+      pageIdMap,
+      relationProperties,
+      sourceDatabaseId,
+      true,
+    );
+    ({ remappedRelationsCount, unresolvedRelationsCount } = remapResult);
+    droppedPages.push(...remapResult.droppedPages);
+  }
+
+  let linkedSubItemsCount = 0;
+  if (options.hierarchyMode === "nested") {
+    const changedPageIds = new Set(changedPages.map((page) => page.id));
+    linkedSubItemsCount = await linkClonedHierarchy(
+      targetDatabaseId,
+      new Map([...hierarchy.parentIdMap].filter(([childId]) => changedPageIds.has(childId))),
+      pageIdMap,
+      NESTED_PARENT_PROPERTY in targetDatabase.properties,
+    );
+  }
+
+  // Add the formulas and rollups the target is missing
+  await onProgress({ phase: "recreating_properties" });
+  const derivedProperties = Object.fromEntries(
+    Object.entries(collectDerivedProperties(sourceDatabase.properties, rules)).filter(
+      ([name]) => !(name in targetDatabase.properties),
+    ),
+  );
+  const unrecreatedProperties = await recreateDerivedProperties(
+    targetDatabaseId,
+    derivedProperties,
+    buildClonedRelationsMap(relationProperties, sourceDatabaseId, options),
+    rules,
+    sourceDatabase.properties,
+  );
+  addedProperties.push(
+    ...Object.keys(derivedProperties).filter(
+      (name) => !unrecreatedProperties.some((prop) => prop.name === name),
+    ),
+  );
+
+  const targetDatabaseUrl = `https://notion.so/${targetDatabaseId.replace(/-/g, "")}`;
+  const triggerPageUpdated = await updateTriggerPage(request.trigger, targetDatabaseUrl);
+  const report = buildRunReport(
+    { skippedPages, failedPages, droppedPages },
+    createdPagesCount + updatedPagesCount + failedPagesCount,
+    [
+      ...collectDroppedProperties(sourceDatabase.properties, options, rules),
+      ...unrecreatedProperties,
+    ],
+    hierarchy.issues,
+    timer.finish(),
+    options.failureThreshold,
+  );
+
+  const syncResponse: SyncResponse = {
+    success: report.status !== "failed",
+    mode: "sync",
+    targetDatabaseId,
+    targetDatabaseUrl,
+    message: `Database synced: ${createdPagesCount} pages created, ${updatedPagesCount} updated, ${archivedPagesCount} archived, ${unchangedPagesCount} unchanged.`,
+    createdPagesCount,
+    updatedPagesCount,
+    unchangedPagesCount,
+    archivedPagesCount,
+    failedPagesCount,
+    orphanPages: countOrphanPages(source.pages, hierarchy, options),
+    addedProperties,
+    remappedRelationsCount,
+    unresolvedRelationsCount,
+    hierarchyMode: options.hierarchyMode,
+    linkedSubItemsCount,
+    ...blockStats,
+    unrecreatedProperties,
+    profile: profileName,
+    matchedPagesCount: source.matchedPagesCount,
+    addedParentPagesCount: source.addedParentPagesCount,
+    ...notion.getRunStats(),
+    triggerPageUpdated,
+    report,
+    ...schemaCheck,
+  };
+
+  await syncStateStore.save(nextState);
+  await saveSchemaFingerprint(sourceDatabase);
+  return syncResponse;
+}
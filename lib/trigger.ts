@@ -0,0 +1,129 @@
+import { notion } from "./notion.js";
+import { getPropertyPlainText } from "./property-rules.js";
+
+interface TriggerPropertyNames {
+  profile: string;
+  source: string;
+  name: string;
+  result: string;
+}
+
+// Settings read from the page that triggered a Notion automation
+export interface AutomationTrigger {
+  pageId: string;
+  profile?: string;
+  sourceDatabaseId?: string;
+  nameTemplate?: string;
+  resultProperty?: { name: string; type: string };
+}
+
+// Properties of the page that triggered a Notion automation ("Send webhook" action or button)
+// that a run reads its settings from and writes the clone URL back to
+const DEFAULT_TRIGGER_PROPERTIES: TriggerPropertyNames = {
+  profile: "Clone Profile",
+  source: "Source Database",
+  name: "Clone Name",
+  result: "Clone URL",
+};
+
+// Notion automations post { source: { type: "automation", ... }, data: <triggering page> }
+export function isAutomationPayload(body: any): boolean {
+  return body?.data?.object === "page" && typeof body.data.id === "string";
+}
+
+// Property names come from TRIGGER_PROPERTIES (JSON), falling back to the defaults
+function getTriggerPropertyNames(): TriggerPropertyNames {
+  if (!process.env.TRIGGER_PROPERTIES) {
+    return DEFAULT_TRIGGER_PROPERTIES;
+  }
+
+  try {
+    return { ...DEFAULT_TRIGGER_PROPERTIES, ...JSON.parse(process.env.TRIGGER_PROPERTIES) };
+  } catch {
+    throw new Error("TRIGGER_PROPERTIES environment variable contains invalid JSON");
+  }
+}
+
+// A database ID given as a plain ID, a Notion URL or a database mention
+function readDatabaseId(value: any): string | undefined {
+  const mention = value?.rich_text?.find((item: any) => item.mention?.type === "database");
+  if (mention) {
+    return mention.mention.database.id;
+  }
+
+  const match = getPropertyPlainText(value).match(
+    /[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}/i,
+  );
+  return match?.[0].replace(/-/g, "");
+}
+
+// Read the run settings from the page that triggered the automation. Empty properties
+// leave the profile's own settings in place.
+export function parseAutomationTrigger(body: any): AutomationTrigger {
+  const names = getTriggerPropertyNames();
+  const properties = body.data.properties ?? {};
+  const readText = (name: string) => getPropertyPlainText(properties[name]).trim() || undefined;
+
+  const resultProperty = properties[names.result];
+
+  return {
+    pageId: body.data.id,
+    profile: readText(names.profile),
+    sourceDatabaseId: properties[names.source]
+      ? readDatabaseId(properties[names.source])
+      : undefined,
+    nameTemplate: readText(names.name),
+    resultProperty: resultProperty ? { name: names.result, type: resultProperty.type } : undefined,
+  };
+}
+
+// Write the clone URL back to the triggering page, as a URL or a linked text
+async function writeTriggerResult(trigger: AutomationTrigger, newDatabaseUrl: string) {
+  const resultProperty = trigger.resultProperty;
+
+  if (!resultProperty) {
+    console.log("ℹ️ Triggering page has no clone URL property, nothing written back");
+    return;
+  }
+
+  let value: any;
+  if (resultProperty.type === "url") {
+    value = { url: newDatabaseUrl };
+  } else if (resultProperty.type === "rich_text") {
+    value = {
+      rich_text: [
+        { type: "text", text: { content: newDatabaseUrl, link: { url: newDatabaseUrl } } },
+      ],
+    };
+  } else {
+    console.log(
+      `⚠️ Property "${resultProperty.name}" has type "${resultProperty.type}", clone URL not written back`,
+    );
+    return;
+  }
+
+  await notion.pages.update({
+    page_id: trigger.pageId,
+    properties: { [resultProperty.name]: value },
+  });
+  console.log(`🔗 Wrote clone URL to "${resultProperty.name}" of the triggering page`);
+}
+
+// Write the database URL back to the triggering page of a run, if it has one. A failed
+// write-back does not undo a finished run; the result says whether the page was updated.
+export async function updateTriggerPage(
+  trigger: AutomationTrigger | undefined,
+  databaseUrl: string,
+): Promise<boolean | undefined> {
+  if (!trigger) {
+    return undefined;
+  }
+
+  try {
+    await writeTriggerResult(trigger, databaseUrl);
+    return !!trigger.resultProperty;
+  } catch (error) {
+    console.error("❌ Error writing the clone URL back to the triggering page:", error);
+    return false;
+  }
+}
@@ -1,7 +1,13 @@
+import { Readable } from "node:stream";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { beforeEach, describe, expect, test, vi } from "vitest";
 import duplicateHandler from "../api/duplicate.js";
 import healthHandler from "../api/health.js";
+import { runHealthChecks } from "../lib/health.js";
+import { formatDatabaseName } from "../lib/naming.js";
+import { notion } from "../lib/notion.js";
+import { parseCloneOptions, resolveSourceQuery } from "../lib/options.js";
+import { resolveCloneProfile } from "../lib/profiles.js";
 
 // Mock environment for testing
 const mockEnv = {
@@ -9,6 +15,7 @@ const mockEnv = {
   SOURCE_DATABASE_ID: "12345678901234567890123456789012",
   PARENT_PAGE_ID: "98765432109876543210987654321098",
   NEW_DATABASE_NAME: "Test Database Clone",
+  API_TOKEN: "test-api-token",
 };
 
 // Utilities for managing environment variables in tests
@@ -45,13 +52,12 @@ const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
 function createMockRequest(method = "POST", body = {}): VercelRequest {
-  return {
+  return Object.assign(Readable.from([JSON.stringify(body)]), {
     method,
-    body,
-    headers: {},
+    headers: { authorization: "Bearer test-api-token" },
     url: "/api/duplicate",
     query: {},
-  } as VercelRequest;
+  }) as unknown as VercelRequest;
 }
 
 function createMockResponse() {
@@ -87,6 +93,7 @@ describe("API Endpoints", () => {
         hasToken: true,
         hasSourceDatabaseId: true,
         hasParentPageId: true,
+        hasProfiles: false,
       });
     });
 
@@ -107,10 +114,97 @@ describe("API Endpoints", () => {
         hasToken: true,
         hasSourceDatabaseId: false,
         hasParentPageId: true,
+        hasProfiles: false,
       });
     });
 
+    test("should return healthy when only clone profiles are configured", async () => {
+      const { SOURCE_DATABASE_ID, PARENT_PAGE_ID, ...envWithoutDefaults } = mockEnv;
+      envUtils.setEnvVars({
+        ...envWithoutDefaults,
+        CLONE_PROFILES: JSON.stringify({ smoke: { sourceDatabaseId: SOURCE_DATABASE_ID } }),
+      });
+
+      const req = createMockRequest("GET");
+      const res = createMockResponse();
+
+      await healthHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(vi.mocked(res.json).mock.calls[0][0]).toMatchObject({
+        status: "healthy",
+        hasSourceDatabaseId: false,
+        hasParentPageId: false,
+        hasProfiles: true,
+      });
+    });
+
+    test("should report each deep check with its latency", async () => {
+      envUtils.setEnvVars(mockEnv);
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const req = createMockRequest("GET");
+      req.query = { deep: "1" };
+      const res = createMockResponse();
+
+      await healthHandler(req, res);
+
+      const body = vi.mocked(res.json).mock.calls[0][0];
+      expect(res.status).toHaveBeenCalledWith(503);
+      expect(body.status).toBe("unhealthy");
+      expect(body.checks.map((check: any) => [check.name, check.ok])).toEqual([
+        ["configuration", true],
+        ["token", false],
+        ["source_database", false],
+        ["parent_page", false],
+        ["schema", false],
+      ]);
+      expect(body.checks[0].latencyMs).toEqual(expect.any(Number));
+      expect(body.checks[4].message).toContain("Not checked");
+    });
+
+    test("should only read the parent page unless write is requested", async () => {
+      envUtils.setEnvVars(mockEnv);
+      const spies = [
+        vi.spyOn(notion.pages, "retrieve").mockResolvedValue({} as any),
+        vi.spyOn(notion.blocks.children, "append").mockResolvedValue({
+          results: [{ id: "health-block" }],
+        } as any),
+        vi.spyOn(notion.blocks, "delete").mockResolvedValue({} as any),
+      ];
+
+      const readChecks = await runHealthChecks();
+      expect(readChecks.find((check) => check.name === "parent_page")?.message).toContain(
+        "Read access only",
+      );
+      expect(notion.blocks.children.append).not.toHaveBeenCalled();
+
+      const writeChecks = await runHealthChecks(undefined, true);
+      expect(writeChecks.find((check) => check.name === "parent_page")?.ok).toBe(true);
+      expect(notion.blocks.delete).toHaveBeenCalledWith({ block_id: "health-block" });
+
+      for (const spy of spies) {
+        spy.mockRestore();
+      }
+    });
+
+    test("should require credentials for deep checks", async () => {
+      envUtils.setEnvVars(mockEnv);
+
+      const req = createMockRequest("GET");
+      req.headers = {};
+      req.query = { deep: "1" };
+      const res = createMockResponse();
+
+      await healthHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+
     test("should handle CORS preflight", async () => {
+      envUtils.setEnvVars({ ALLOWED_ORIGINS: "*" });
+
       const req = createMockRequest("OPTIONS");
       const res = createMockResponse();
 
@@ -203,6 +297,8 @@ describe("API Endpoints", () => {
     });
 
     test("should handle CORS preflight", async () => {
+      envUtils.setEnvVars({ ALLOWED_ORIGINS: "*" });
+
       const req = createMockRequest("OPTIONS");
       const res = createMockResponse();
 
@@ -246,6 +342,165 @@ describe("API Endpoints", () => {
     });
   });
 
+  describe("Clone Options", () => {
+    test("should default to flat hierarchy mode", () => {
+      expect(parseCloneOptions({}).hierarchyMode).toBe("flat");
+      expect(parseCloneOptions(undefined).hierarchyMode).toBe("flat");
+    });
+
+    test("should accept nested hierarchy mode from the request body", () => {
+      expect(parseCloneOptions({ hierarchyMode: "nested" }).hierarchyMode).toBe("nested");
+    });
+
+    test("should switch content copying per run", () => {
+      expect(parseCloneOptions({}).copyContent).toBe(false);
+      expect(parseCloneOptions({ copyContent: true }).copyContent).toBe(true);
+      expect(() => parseCloneOptions({ copyContent: "yes" })).toThrow("Invalid request option");
+    });
+
+    test("should accept a boolean dryRun flag", () => {
+      expect(parseCloneOptions({}).dryRun).toBe(false);
+      expect(parseCloneOptions({ dryRun: true }).dryRun).toBe(true);
+      expect(() => parseCloneOptions({ dryRun: "1" })).toThrow("Invalid request option");
+    });
+
+    test("should normalize value policies", () => {
+      expect(
+        parseCloneOptions({
+          valuePolicies: { Done: "clear", Status: { policy: "set", value: "Not started" } },
+        }).valuePolicies,
+      ).toEqual({
+        Done: { policy: "clear" },
+        Status: { policy: "set", value: "Not started" },
+      });
+      expect(() => parseCloneOptions({ valuePolicies: { Done: "wipe" } })).toThrow(
+        "Invalid request option",
+      );
+    });
+
+    test("should reject unknown hierarchy modes with 400", async () => {
+      envUtils.setEnvVars(mockEnv);
+
+      const req = createMockRequest("POST", { hierarchyMode: "tree" });
+      const res = createMockResponse();
+
+      await duplicateHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: "Invalid request options",
+        details: undefined,
+      });
+    });
+  });
+
+  describe("Source Query", () => {
+    const smokeFilter = { property: "Tags", multi_select: { contains: "smoke" } };
+    const profile = {
+      sourceDatabaseId: mockEnv.SOURCE_DATABASE_ID,
+      parentPageId: mockEnv.PARENT_PAGE_ID,
+      nameTemplate: "{date}",
+      options: {},
+      filters: { smoke: { filter: smokeFilter } },
+    };
+
+    test("should clone every page without a filter", () => {
+      expect(resolveSourceQuery(parseCloneOptions({}), profile)).toEqual({
+        filter: undefined,
+        sorts: undefined,
+      });
+    });
+
+    test("should pass an explicit filter and sorts through", () => {
+      const sorts = [{ property: "Name", direction: "ascending" }];
+      const options = parseCloneOptions({ filter: smokeFilter, sorts });
+
+      expect(resolveSourceQuery(options, profile)).toEqual({ filter: smokeFilter, sorts });
+    });
+
+    test("should resolve named filters from the profile and NAMED_FILTERS", () => {
+      envUtils.setEnvVars({
+        NAMED_FILTERS: JSON.stringify({
+          ui: { filter: { property: "UI", checkbox: { equals: true } } },
+        }),
+      });
+
+      expect(
+        resolveSourceQuery(parseCloneOptions({ filterName: "smoke" }), profile).filter,
+      ).toEqual(smokeFilter);
+      expect(resolveSourceQuery(parseCloneOptions({ filterName: "ui" }), profile).filter).toEqual({
+        property: "UI",
+        checkbox: { equals: true },
+      });
+      expect(() => resolveSourceQuery(parseCloneOptions({ filterName: "x" }), profile)).toThrow(
+        "Invalid request option",
+      );
+    });
+  });
+
+  describe("Clone Profiles", () => {
+    const profiles = {
+      smoke: {
+        sourceDatabaseId: "abcdefabcdefabcdefabcdefabcdefab",
+        parentPageId: mockEnv.PARENT_PAGE_ID,
+        nameTemplate: "Smoke run ({date})",
+        options: { copyContent: true },
+      },
+    };
+
+    test("should fall back to the environment configuration without a profile", () => {
+      envUtils.setEnvVars(mockEnv);
+
+      expect(resolveCloneProfile(undefined)).toEqual({
+        sourceDatabaseId: mockEnv.SOURCE_DATABASE_ID,
+        parentPageId: mockEnv.PARENT_PAGE_ID,
+        nameTemplate: "Test Database Clone ({date})",
+        options: {},
+      });
+    });
+
+    test("should resolve a named profile whose source is allowlisted", () => {
+      envUtils.setEnvVars({
+        ...mockEnv,
+        CLONE_PROFILES: JSON.stringify(profiles),
+        ALLOWED_SOURCE_DATABASE_IDS: profiles.smoke.sourceDatabaseId,
+      });
+
+      expect(resolveCloneProfile("smoke")).toEqual(profiles.smoke);
+    });
+
+    test("should reject profiles whose source is not allowlisted", async () => {
+      envUtils.setEnvVars({ ...mockEnv, CLONE_PROFILES: JSON.stringify(profiles) });
+
+      const req = createMockRequest("POST", { profile: "smoke" });
+      const res = createMockResponse();
+
+      await duplicateHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({
+        error: "Source database is not allowed",
+        details: undefined,
+      });
+    });
+
+    test("should reject unknown profiles with 400", async () => {
+      envUtils.setEnvVars(mockEnv);
+
+      const req = createMockRequest("POST", { profile: "missing" });
+      const res = createMockResponse();
+
+      await duplicateHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    test("should fill the date token of the name template", () => {
+      const name = formatDatabaseName("Run ({date})", new Date("2024-03-05T09:07:00Z"));
+      expect(name).toBe("Run (05.03.2024, 10:07)");
+    });
+  });
+
   describe("Hierarchy Analysis", () => {
     test("should attempt hierarchy analysis with logging", async () => {
       envUtils.setEnvVars(mockEnv);
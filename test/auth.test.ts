@@ -0,0 +1,161 @@
+import { createHmac } from "node:crypto";
+import { Readable } from "node:stream";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import duplicateHandler from "../api/duplicate.js";
+import { authenticateRequest, setCorsHeaders } from "../lib/auth.js";
+
+const NOW = Date.parse("2024-03-05T09:00:00Z");
+const TIMESTAMP = String(NOW / 1000);
+
+const BODY = '{"profile":"smoke"}';
+
+function createRequest(headers: Record<string, string>, body = BODY) {
+  return Object.assign(Readable.from([body]), {
+    method: "POST",
+    headers,
+    query: {},
+  }) as unknown as VercelRequest;
+}
+
+function sign(secret: string, timestamp: string, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+function createMockResponse() {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+describe("Authentication", () => {
+  const backup = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...backup };
+    vi.restoreAllMocks();
+  });
+
+  describe("authenticateRequest", () => {
+    it("should reject every request when no secret is configured", () => {
+      process.env.API_TOKEN = "";
+      process.env.WEBHOOK_SECRET = "";
+
+      expect(authenticateRequest(createRequest({ authorization: "Bearer " }))?.statusCode).toBe(
+        403,
+      );
+    });
+
+    it("should check bearer tokens", () => {
+      process.env.API_TOKEN = "token-123";
+
+      expect(authenticateRequest(createRequest({ authorization: "Bearer token-123" }))).toBe(
+        undefined,
+      );
+      expect(authenticateRequest(createRequest({ authorization: "Bearer wrong" }))).toEqual({
+        statusCode: 403,
+        error: "Invalid API token",
+      });
+      expect(authenticateRequest(createRequest({}))?.statusCode).toBe(401);
+    });
+
+    it("should check HMAC signatures over the timestamp and body", () => {
+      process.env.WEBHOOK_SECRET = "secret";
+      const signature = sign("secret", TIMESTAMP, BODY);
+      const headers = { "x-signature": signature, "x-signature-timestamp": TIMESTAMP };
+
+      expect(authenticateRequest(createRequest(headers), BODY, NOW)).toBeUndefined();
+      expect(authenticateRequest(createRequest(headers), '{"profile":"full"}', NOW)?.error).toBe(
+        "Invalid signature",
+      );
+      expect(
+        authenticateRequest(createRequest({ "x-signature": signature }), BODY, NOW)?.statusCode,
+      ).toBe(401);
+    });
+
+    it("should reject signatures outside the timestamp window", () => {
+      process.env.WEBHOOK_SECRET = "secret";
+      const staleTimestamp = String(NOW / 1000 - 600);
+      const headers = {
+        "x-signature": sign("secret", staleTimestamp, BODY),
+        "x-signature-timestamp": staleTimestamp,
+      };
+
+      expect(authenticateRequest(createRequest(headers), BODY, NOW)).toEqual({
+        statusCode: 403,
+        error: "Signature timestamp is outside the allowed window",
+      });
+    });
+  });
+
+  describe("setCorsHeaders", () => {
+    it("should only allow configured origins", () => {
+      process.env.ALLOWED_ORIGINS = "https://qa.example.com, https://ci.example.com";
+
+      const allowed = createMockResponse();
+      setCorsHeaders(createRequest({ origin: "https://ci.example.com" }), allowed, "POST");
+      expect(allowed.setHeader).toHaveBeenCalledWith(
+        "Access-Control-Allow-Origin",
+        "https://ci.example.com",
+      );
+
+      const denied = createMockResponse();
+      setCorsHeaders(createRequest({ origin: "https://evil.example.com" }), denied, "POST");
+      expect(denied.setHeader).not.toHaveBeenCalledWith(
+        "Access-Control-Allow-Origin",
+        expect.anything(),
+      );
+    });
+  });
+
+  describe("POST /api/duplicate", () => {
+    it("should return 401 before doing any work when credentials are missing", async () => {
+      process.env.API_TOKEN = "token-123";
+      const res = createMockResponse();
+
+      await duplicateHandler(createRequest({}), res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.setHeader).toHaveBeenCalledWith("WWW-Authenticate", "Bearer");
+      expect(res.json).toHaveBeenCalledWith({
+        error: "Unauthorized",
+        message: "Authentication required",
+      });
+    });
+
+    it("should verify signatures against the raw body", async () => {
+      process.env.WEBHOOK_SECRET = "secret";
+      Reflect.deleteProperty(process.env, "NOTION_TOKEN");
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const body = '{ "profile": "smoke" }';
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const res = createMockResponse();
+
+      await duplicateHandler(
+        createRequest(
+          { "x-signature": sign("secret", timestamp, body), "x-signature-timestamp": timestamp },
+          body,
+        ),
+        res,
+      );
+
+      // Authenticated: the run gets as far as the missing Notion token
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(vi.mocked(res.json).mock.calls[0][0].error).toBe("Server configuration error");
+    });
+
+    it("should reject a body that is not JSON", async () => {
+      process.env.API_TOKEN = "token-123";
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const res = createMockResponse();
+
+      await duplicateHandler(createRequest({ authorization: "Bearer token-123" }, "{profile"), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { copyBlockChildren, toBlockRequest } from "../lib/blocks.js";
+import { notion } from "../lib/notion.js";
+
+describe("Block copying", () => {
+  describe("toBlockRequest", () => {
+    it("should keep the block content and drop response metadata", () => {
+      const block = {
+        object: "block",
+        id: "block-id",
+        type: "paragraph",
+        has_children: false,
+        created_time: "2024-01-01T00:00:00.000Z",
+        paragraph: {
+          rich_text: [{ type: "text", text: { content: "Open the login page" } }],
+          color: "default",
+        },
+      };
+
+      expect(toBlockRequest(block)).toEqual({
+        type: "paragraph",
+        paragraph: {
+          rich_text: [{ type: "text", text: { content: "Open the login page" } }],
+          color: "default",
+        },
+      });
+    });
+
+    it("should return null for block types the API cannot create", () => {
+      expect(toBlockRequest({ type: "child_page", child_page: { title: "Sub" } })).toBeNull();
+      expect(toBlockRequest({ type: "unsupported", unsupported: {} })).toBeNull();
+      expect(toBlockRequest({ type: "link_preview", link_preview: { url: "x" } })).toBeNull();
+    });
+
+    it("should copy external media but skip Notion-hosted files", () => {
+      const external = {
+        type: "image",
+        image: { type: "external", external: { url: "https://example.com/a.png" } },
+      };
+      const uploaded = {
+        type: "image",
+        image: { type: "file", file: { url: "https://s3/a.png", expiry_time: "..." } },
+      };
+
+      expect(toBlockRequest(external)).toEqual(external);
+      expect(toBlockRequest(uploaded)).toBeNull();
+    });
+  });
+
+  describe("copyBlockChildren", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should return the blocks that could not be appended", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      vi.spyOn(notion.blocks.children, "list").mockResolvedValue({
+        results: [
+          { id: "b1", type: "paragraph", has_children: false, paragraph: { rich_text: [] } },
+          { id: "b2", type: "divider", has_children: false, divider: {} },
+        ],
+        has_more: false,
+        next_cursor: null,
+      } as any);
+      vi.spyOn(notion.blocks.children, "append").mockRejectedValue(new Error("Conflict"));
+      const stats = { copiedBlocksCount: 0, failedBlocksCount: 0, skippedBlocks: {} };
+
+      expect(await copyBlockChildren("source-page", "target-page", stats)).toBe(2);
+      expect(stats).toMatchObject({ copiedBlocksCount: 0, failedBlocksCount: 2 });
+    });
+  });
+});
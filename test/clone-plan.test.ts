@@ -0,0 +1,277 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildClonePlan } from "../lib/clone.js";
+import { analyzeHierarchy, buildSuitePaths, getSuitePath } from "../lib/hierarchy.js";
+import { parseCloneOptions } from "../lib/options.js";
+import { DEFAULT_PROPERTY_RULES, buildClonedPageProperties } from "../lib/property-rules.js";
+
+const SOURCE_DB = "11111111111111111111111111111111";
+
+function page(id: string, title: string, parentId?: string) {
+  return {
+    id,
+    properties: {
+      Name: { type: "title", title: [{ plain_text: title }] },
+      "Parent item": {
+        type: "relation",
+        relation: parentId ? [{ id: parentId }] : [],
+      },
+    },
+  };
+}
+
+const sourceProperties = {
+  Name: { type: "title", title: {} },
+  Done: { type: "checkbox", checkbox: {} },
+  "Parent item": { type: "relation", relation: { database_id: SOURCE_DB } },
+  "Sub-items": { type: "relation", relation: { database_id: SOURCE_DB } },
+  Progress: { type: "formula", formula: { expression: 'prop("Done")' } },
+  Total: {
+    type: "rollup",
+    rollup: {
+      relation_property_name: "Missing relation",
+      rollup_property_name: "Done",
+      function: "count",
+    },
+  },
+};
+
+const pages = [
+  page("a", "Checkout"),
+  page("b", "Payments", "a"),
+  page("c", "Cards", "b"),
+  page("d", "Standalone"),
+];
+
+describe("Clone plan", () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+
+  describe("analyzeHierarchy", () => {
+    it("should map each child ID to its parent", () => {
+      const hierarchy = analyzeHierarchy(pages, DEFAULT_PROPERTY_RULES);
+
+      expect([...hierarchy.parentIdMap.entries()]).toEqual([
+        ["b", "a"],
+        ["c", "b"],
+      ]);
+      expect(hierarchy.issues).toEqual({ cycles: [], multiParentPages: [] });
+    });
+
+    it("should keep the parents of pages with the same title apart", () => {
+      const hierarchy = analyzeHierarchy(
+        [
+          page("s1", "Web"),
+          page("s2", "Mobile"),
+          page("l1", "Login", "s1"),
+          page("l2", "Login", "s2"),
+        ],
+        DEFAULT_PROPERTY_RULES,
+      );
+
+      expect(hierarchy.parentIdMap.get("l1")).toBe("s1");
+      expect(hierarchy.parentIdMap.get("l2")).toBe("s2");
+    });
+
+    it("should use the first of several parents and report the page", () => {
+      const shared = page("c", "Cards", "a");
+      shared.properties["Parent item"].relation.push({ id: "b" });
+
+      const hierarchy = analyzeHierarchy(
+        [page("a", "Checkout"), page("b", "Payments"), shared],
+        DEFAULT_PROPERTY_RULES,
+      );
+
+      expect(hierarchy.parentIdMap.get("c")).toBe("a");
+      expect(hierarchy.issues.multiParentPages).toEqual([
+        {
+          id: "c",
+          title: "Cards",
+          parents: [
+            { id: "a", title: "Checkout" },
+            { id: "b", title: "Payments" },
+          ],
+        },
+      ]);
+    });
+
+    it("should report cycles and clone their first page without a parent", () => {
+      const hierarchy = analyzeHierarchy(
+        [page("x", "X", "z"), page("y", "Y", "x"), page("z", "Z", "y"), page("w", "W", "z")],
+        DEFAULT_PROPERTY_RULES,
+      );
+
+      expect(hierarchy.issues.cycles).toEqual([
+        [
+          { id: "x", title: "X" },
+          { id: "z", title: "Z" },
+          { id: "y", title: "Y" },
+        ],
+      ]);
+      expect(hierarchy.parentIdMap.has("x")).toBe(false);
+      expect(hierarchy.suitePaths.get("w")).toEqual(["X", "Y", "Z"]);
+    });
+  });
+
+  describe("suite paths", () => {
+    it("should list every ancestor suite, root first", () => {
+      const { suitePaths } = analyzeHierarchy(pages, DEFAULT_PROPERTY_RULES);
+
+      expect(suitePaths.get("b")).toEqual(["Checkout"]);
+      expect(suitePaths.get("c")).toEqual(["Checkout", "Payments"]);
+      expect(suitePaths.has("a")).toBe(false);
+    });
+
+    it("should stop at a cycle in the relations", () => {
+      const cyclePages = [page("x", "X", "y"), page("y", "Y", "x")];
+      const suitePaths = buildSuitePaths(
+        cyclePages,
+        new Map([
+          ["x", "y"],
+          ["y", "x"],
+        ]),
+      );
+
+      expect(suitePaths.get("x")).toEqual(["Y"]);
+    });
+
+    it("should fill the path, depth and root suite columns", () => {
+      const properties = buildClonedPageProperties(
+        pages[2],
+        "Payments",
+        parseCloneOptions({}),
+        DEFAULT_PROPERTY_RULES,
+        ["Checkout", "Payments"],
+      );
+
+      expect(properties["Suite Path"].rich_text[0].text.content).toBe("Checkout > Payments");
+      expect(properties["Suite Depth"]).toEqual({ type: "number", number: 2 });
+      expect(properties["Root Suite"].rich_text[0].text.content).toBe("Checkout");
+    });
+
+    it("should give root pages the suite of the orphan policy", () => {
+      const hierarchy = analyzeHierarchy(pages, DEFAULT_PROPERTY_RULES);
+
+      expect(
+        getSuitePath(pages[0], hierarchy, parseCloneOptions({ orphanPolicy: "self" })),
+      ).toEqual(["Checkout"]);
+      expect(
+        getSuitePath(pages[0], hierarchy, parseCloneOptions({ orphanPolicy: "unsorted" })),
+      ).toEqual(["Unsorted"]);
+      expect(
+        getSuitePath(pages[0], hierarchy, parseCloneOptions({ orphanPolicy: "empty" })),
+      ).toEqual([]);
+      expect(getSuitePath(pages[2], hierarchy, parseCloneOptions({}))).toEqual([
+        "Checkout",
+        "Payments",
+      ]);
+    });
+
+    it("should leave out the columns the rules do not add and keep source properties", () => {
+      const sourcePage = {
+        ...pages[2],
+        properties: {
+          ...pages[2].properties,
+          "Root Suite": { type: "select", select: { name: "Web" } },
+        },
+      };
+      const rules = {
+        ...DEFAULT_PROPERTY_RULES,
+        rules: DEFAULT_PROPERTY_RULES.rules.filter((rule) => rule.property !== "Suite Depth"),
+      };
+
+      const properties = buildClonedPageProperties(
+        sourcePage,
+        "Payments",
+        parseCloneOptions({}),
+        rules,
+        ["Checkout", "Payments"],
+      );
+
+      expect(properties).not.toHaveProperty("Suite Depth");
+      expect(properties["Root Suite"]).toEqual({ type: "select", select: { name: "Web" } });
+      expect(properties["Suite Path"].rich_text[0].text.content).toBe("Checkout > Payments");
+    });
+  });
+
+  describe("buildClonePlan", () => {
+    const source = { pages, matchedPagesCount: 4, addedParentPagesCount: 0 };
+
+    it("should list the orphan pages skipped in flat mode", () => {
+      const plan = buildClonePlan(
+        sourceProperties,
+        source,
+        analyzeHierarchy(pages, DEFAULT_PROPERTY_RULES),
+        SOURCE_DB,
+        parseCloneOptions({}),
+        DEFAULT_PROPERTY_RULES,
+      );
+
+      expect(plan.pagesToCreateCount).toBe(2);
+      expect(plan.skippedOrphanPages).toEqual([
+        { id: "a", title: "Checkout" },
+        { id: "d", title: "Standalone" },
+      ]);
+      expect(plan.hierarchy).toEqual([
+        { page: "Payments", parent: "Checkout" },
+        { page: "Cards", parent: "Payments" },
+      ]);
+      expect(plan.orphanPages).toEqual({ skipped: 2, empty: 0, self: 0, unsorted: 0 });
+    });
+
+    it("should clone orphan pages under the orphan policy", () => {
+      const plan = buildClonePlan(
+        sourceProperties,
+        source,
+        analyzeHierarchy(pages, DEFAULT_PROPERTY_RULES),
+        SOURCE_DB,
+        parseCloneOptions({ orphanPolicy: "unsorted" }),
+        DEFAULT_PROPERTY_RULES,
+      );
+
+      expect(plan.pagesToCreateCount).toBe(4);
+      expect(plan.skippedOrphanPages).toEqual([]);
+      expect(plan.orphanPages).toEqual({ skipped: 0, empty: 0, self: 0, unsorted: 2 });
+      expect(() => parseCloneOptions({ orphanPolicy: "drop" })).toThrow(
+        "Invalid request option orphanPolicy",
+      );
+    });
+
+    it("should show the schema after renames with relations and formulas", () => {
+      const plan = buildClonePlan(
+        sourceProperties,
+        source,
+        analyzeHierarchy(pages, DEFAULT_PROPERTY_RULES),
+        SOURCE_DB,
+        parseCloneOptions({}),
+        DEFAULT_PROPERTY_RULES,
+      );
+
+      expect(plan.schema["a. Done"]).toEqual({ type: "checkbox", checkbox: {} });
+      expect(plan.schema["Test Suite"]).toHaveProperty("rich_text");
+      expect(plan.schema["Parent item"].relation.database_id).toBe("<new database>");
+      expect(plan.schema.Progress).toEqual({ formula: { expression: 'prop("a. Done")' } });
+      expect(plan.droppedProperties).toEqual([
+        expect.objectContaining({ name: "Total", type: "rollup" }),
+      ]);
+    });
+
+    it("should keep root pages and replace hierarchy fields in nested mode", () => {
+      const plan = buildClonePlan(
+        sourceProperties,
+        source,
+        analyzeHierarchy(pages, DEFAULT_PROPERTY_RULES),
+        SOURCE_DB,
+        parseCloneOptions({ hierarchyMode: "nested" }),
+        DEFAULT_PROPERTY_RULES,
+      );
+
+      expect(plan.pagesToCreateCount).toBe(4);
+      expect(plan.skippedOrphanPages).toEqual([]);
+      expect(plan.schema["Parent item"].relation.type).toBe("dual_property");
+      expect(plan.droppedProperties.map((prop) => prop.name)).toEqual([
+        "Parent item",
+        "Sub-items",
+        "Total",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { Readable } from "node:stream";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import duplicateHandler from "../api/duplicate.js";
+import { buildClonePlan } from "../lib/clone.js";
+import { analyzeHierarchy } from "../lib/hierarchy.js";
+import { parseCloneOptions } from "../lib/options.js";
+import { DEFAULT_PROPERTY_RULES } from "../lib/property-rules.js";
+import { prepareCloneRequest } from "../lib/request.js";
+import {
+  buildDatabaseSnapshot,
+  formatSnapshotCsv,
+  formatSnapshotMarkdown,
+  parseSnapshot,
+  readSnapshotSource,
+} from "../lib/snapshot.js";
+
+function page(id: string, title: string, done: boolean, parentId?: string) {
+  return {
+    id,
+    properties: {
+      Name: { type: "title", title: [{ plain_text: title }] },
+      Done: { type: "checkbox", checkbox: done },
+      "Parent item": {
+        type: "relation",
+        relation: parentId ? [{ id: parentId }] : [],
+      },
+    },
+  };
+}
+
+const sourceDatabase = {
+  id: "11111111-1111-1111-1111-111111111111",
+  title: [{ plain_text: "QA Checklist" }],
+  properties: {
+    Name: { type: "title", title: {} },
+    Done: { type: "checkbox", checkbox: {} },
+    "Parent item": {
+      type: "relation",
+      relation: { database_id: "11111111-1111-1111-1111-111111111111" },
+    },
+  },
+};
+
+const pages = [
+  page("suite-1", "Login", false),
+  page("case-1", "Valid password", true, "suite-1"),
+  page("case-2", 'Wrong password, "locked"', false, "suite-1"),
+  page("loose-1", "Smoke note", false),
+];
+
+function snapshot() {
+  const source = { pages, matchedPagesCount: pages.length, addedParentPagesCount: 0 };
+  return buildDatabaseSnapshot(
+    sourceDatabase,
+    source,
+    analyzeHierarchy(pages, DEFAULT_PROPERTY_RULES),
+    "default",
+    new Date("2024-03-05T09:00:00Z"),
+  );
+}
+
+describe("Export", () => {
+  const backup = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...backup };
+    vi.restoreAllMocks();
+  });
+
+  it("should snapshot the source schema, every page and the hierarchy", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const result = snapshot();
+
+    expect(result.title).toBe("QA Checklist");
+    expect(result.exportedAt).toBe("2024-03-05T09:00:00.000Z");
+    expect(result.schema).toEqual(sourceDatabase.properties);
+    expect(result.pages.map((item) => item.id)).toEqual(["suite-1", "case-1", "case-2", "loose-1"]);
+    expect(result.hierarchy).toEqual([
+      { pageId: "case-1", parentId: "suite-1" },
+      { pageId: "case-2", parentId: "suite-1" },
+    ]);
+  });
+
+  it("should keep the source values without property rules or value policies", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const result = snapshot();
+
+    expect(result.pages[1].properties).toEqual(pages[1].properties);
+    expect(result.pages[1].properties).not.toHaveProperty("Test Suite");
+  });
+
+  it("should flatten the snapshot into quoted CSV", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const lines = formatSnapshotCsv(snapshot()).split("\r\n");
+
+    expect(lines[0]).toBe("Page ID,Parent ID,Name,Done,Parent item");
+    expect(lines[1]).toBe("suite-1,,Login,false,");
+    expect(lines[2]).toBe("case-1,suite-1,Valid password,true,suite-1");
+    expect(lines[3]).toBe('case-2,suite-1,"Wrong password, ""locked""",false,suite-1');
+  });
+
+  it("should render a Markdown checklist grouped by Test Suite", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    expect(formatSnapshotMarkdown(snapshot())).toBe(
+      [
+        "# QA Checklist",
+        "",
+        "## Login",
+        "",
+        "- [x] Valid password",
+        '- [ ] Wrong password, "locked"',
+        "",
+        "## Without Test Suite",
+        "",
+        "- [ ] Smoke note",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should only accept known export formats", () => {
+    expect(parseCloneOptions({ mode: "export", format: "csv" }).format).toBe("csv");
+    expect(() => parseCloneOptions({ mode: "export", format: "xlsx" })).toThrow(
+      "Invalid request option format",
+    );
+    expect(() => parseCloneOptions({ mode: "export", dryRun: true })).toThrow(
+      "not supported in export mode",
+    );
+    expect(() => parseCloneOptions({ mode: "export", async: true })).toThrow(
+      "not supported in export mode",
+    );
+  });
+
+  it("should answer an unknown export format with 400", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    Object.assign(process.env, {
+      NOTION_TOKEN: "secret_test_token_123",
+      SOURCE_DATABASE_ID: "12345678901234567890123456789012",
+      PARENT_PAGE_ID: "98765432109876543210987654321098",
+      API_TOKEN: "test-api-token",
+    });
+
+    const req = Object.assign(Readable.from([JSON.stringify({ mode: "export", format: "xml" })]), {
+      method: "POST",
+      headers: { authorization: "Bearer test-api-token" },
+      query: {},
+    }) as unknown as VercelRequest;
+    const res = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      setHeader: vi.fn().mockReturnThis(),
+    } as unknown as VercelResponse;
+
+    await duplicateHandler(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(vi.mocked(res.json).mock.calls[0][0].error).toBe("Invalid request options");
+  });
+});
+
+describe("Restore", () => {
+  const backup = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...backup };
+    vi.restoreAllMocks();
+  });
+
+  it("should rebuild the snapshot schema and hierarchy without applying the rules again", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const exported = snapshot();
+
+    const { sourceDatabase, source, hierarchy } = readSnapshotSource(
+      parseSnapshot(JSON.parse(JSON.stringify(exported))),
+    );
+    const plan = buildClonePlan(
+      sourceDatabase.properties,
+      source,
+      hierarchy,
+      exported.sourceDatabaseId,
+      parseCloneOptions({ mode: "restore", hierarchyMode: "nested" }),
+      { ...DEFAULT_PROPERTY_RULES, rules: [] },
+    );
+
+    // The Parent item relation is rebuilt between the restored pages
+    expect(Object.keys(plan.schema)).toEqual(Object.keys(exported.schema));
+    expect(plan.schema.Done).toEqual(exported.schema.Done);
+    expect(plan.schema).not.toHaveProperty("Test Suite");
+    expect(plan.pagesToCreateCount).toBe(4);
+    expect(plan.hierarchy).toEqual([
+      { page: "Valid password", parent: "Login" },
+      { page: 'Wrong password, "locked"', parent: "Login" },
+    ]);
+  });
+
+  it("should reject anything but a JSON export", () => {
+    expect(() => parseSnapshot(undefined)).toThrow("must be a version 1 JSON export");
+    expect(() => parseSnapshot({ version: 1, schema: {}, pages: [] })).toThrow(
+      "needs sourceDatabaseId, schema, pages and hierarchy",
+    );
+    expect(() =>
+      parseSnapshot({
+        version: 1,
+        sourceDatabaseId: sourceDatabase.id,
+        schema: {},
+        pages: [{ id: 1 }],
+        hierarchy: [],
+      }),
+    ).toThrow("bad page 1");
+  });
+
+  it("should take the snapshot from the request and never copy page content", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    Object.assign(process.env, {
+      NOTION_TOKEN: "secret_test_token_123",
+      SOURCE_DATABASE_ID: "12345678901234567890123456789012",
+      PARENT_PAGE_ID: "98765432109876543210987654321098",
+    });
+
+    const request = prepareCloneRequest({
+      mode: "restore",
+      copyContent: true,
+      snapshot: snapshot(),
+    });
+
+    expect(request.snapshot?.pages).toHaveLength(4);
+    expect(request.options.copyContent).toBe(false);
+    expect(() => prepareCloneRequest({ mode: "restore" })).toThrow(
+      "Invalid request option snapshot",
+    );
+  });
+
+  it("should not need a source database that can be cloned", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    Object.assign(process.env, {
+      NOTION_TOKEN: "secret_test_token_123",
+      PARENT_PAGE_ID: "98765432109876543210987654321098",
+    });
+    Reflect.deleteProperty(process.env, "SOURCE_DATABASE_ID");
+
+    const request = prepareCloneRequest({ mode: "restore", snapshot: snapshot() });
+
+    expect(request.profile.sourceDatabaseId).toBe(sourceDatabase.id);
+    expect(() => prepareCloneRequest({})).toThrow("SOURCE_DATABASE_ID environment variable");
+  });
+});
@@ -0,0 +1,299 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import duplicateHandler from "../api/duplicate.js";
+import jobsHandler from "../api/jobs/[id].js";
+import { type CloneJob, getResultStatusCode, openCloneJob } from "../lib/jobs.js";
+import { type JobStore, createFileJobStore, getJobStore, getSnapshotStore } from "../lib/stores.js";
+
+const env = {
+  NOTION_TOKEN: "secret_test_token_123",
+  SOURCE_DATABASE_ID: "12345678901234567890123456789012",
+  PARENT_PAGE_ID: "98765432109876543210987654321098",
+  NEW_DATABASE_NAME: "Test Database Clone",
+  API_TOKEN: "test-api-token",
+};
+
+function createMockResponse() {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as VercelResponse;
+}
+
+function createTestStore(jobs: CloneJob[]): JobStore {
+  const saved = new Map(jobs.map((job) => [job.id, job]));
+  return {
+    async get(id) {
+      return saved.get(id);
+    },
+    async save(job) {
+      saved.set(job.id, job);
+    },
+  };
+}
+
+const interruptedJob = {
+  id: "5f0c2a9e-3b7d-4c1a-9e2f-6d8b7a1c4e30",
+  status: "failed",
+  phase: "failed",
+  profile: "default",
+  updatedAt: new Date().toISOString(),
+  requestBody: { hierarchyMode: "nested" },
+  checkpoint: {
+    targetDatabaseId: "22222222222222222222222222222222",
+    newDatabaseName: "Test Database Clone (01.03.2024, 10:00)",
+    copiedPages: { "source-1": "clone-1" },
+  },
+} as unknown as CloneJob;
+
+function createPostRequest(body: unknown) {
+  return Object.assign(Readable.from([JSON.stringify(body)]), {
+    method: "POST",
+    headers: { authorization: "Bearer test-api-token" },
+    query: {},
+  }) as unknown as VercelRequest;
+}
+
+function getJob(id: string) {
+  const req = {
+    method: "GET",
+    query: { id },
+    headers: { authorization: "Bearer test-api-token" },
+  } as unknown as VercelRequest;
+  const res = createMockResponse();
+  return jobsHandler(req, res).then(() => res);
+}
+
+describe("Clone jobs", () => {
+  const backup = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...backup };
+    vi.restoreAllMocks();
+  });
+
+  describe("createFileJobStore", () => {
+    it("should save and load jobs as JSON files", async () => {
+      const directory = mkdtempSync(join(tmpdir(), "jobs-test-"));
+      const store = createFileJobStore(directory);
+      const job = {
+        id: "0b6c1c3e-8f1a-4a59-9d38-3c1e2f7a9b10",
+        status: "running",
+        phase: "copying_pages",
+        pagesDone: 10,
+        pagesTotal: 40,
+      } as CloneJob;
+
+      try {
+        await store.save(job);
+        expect(await store.get(job.id)).toEqual(job);
+        expect(await store.get("7d2d6c1e-0000-4000-8000-000000000000")).toBeUndefined();
+        await expect(store.get("../secrets")).rejects.toThrow("Invalid job ID format");
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("getJobStore", () => {
+    it("should refuse stores that are not shared on Vercel deployments", () => {
+      process.env.VERCEL_ENV = "production";
+
+      for (const storeType of ["memory", "file"]) {
+        process.env.JOB_STORE = storeType;
+        expect(() => getJobStore()).toThrow('JOB_STORE environment variable must be "redis"');
+      }
+    });
+
+    it("should keep jobs in Redis through the REST API", async () => {
+      Object.assign(process.env, {
+        KV_REST_API_URL: "https://kv.example.com",
+        KV_REST_API_TOKEN: "kv-token",
+        VERCEL_ENV: "production",
+      });
+      const job = { id: "0b6c1c3e-8f1a-4a59-9d38-3c1e2f7a9b10", status: "queued" } as CloneJob;
+      const fetch = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(new Response(JSON.stringify({ result: "OK" })))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ result: JSON.stringify(job) })));
+      const store = getJobStore();
+
+      await store.save(job);
+      expect(await store.get(job.id)).toEqual(job);
+
+      const [url, init] = fetch.mock.calls[0];
+      expect(url).toBe("https://kv.example.com");
+      expect(init?.headers).toMatchObject({ Authorization: "Bearer kv-token" });
+      expect(JSON.parse(String(init?.body))).toEqual([
+        "SET",
+        `notion-clone:jobs:${job.id}`,
+        JSON.stringify(job, null, 2),
+        "EX",
+        604800,
+      ]);
+      expect(JSON.parse(String(fetch.mock.calls[1][1]?.body))).toEqual([
+        "GET",
+        `notion-clone:jobs:${job.id}`,
+      ]);
+    });
+  });
+
+  describe("getResultStatusCode", () => {
+    it("should answer a run above the failure threshold with 422", () => {
+      const withStatus = (status: string) => ({ report: { status } }) as any;
+
+      expect(getResultStatusCode(withStatus("succeeded"))).toBe(200);
+      expect(getResultStatusCode(withStatus("partial"))).toBe(207);
+      expect(getResultStatusCode(withStatus("failed"))).toBe(422);
+    });
+  });
+
+  describe("openCloneJob", () => {
+    it("should reopen an interrupted job with its original options", async () => {
+      Object.assign(process.env, env);
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const { job, request } = await openCloneJob(
+        { resume: interruptedJob.id, hierarchyMode: "flat" },
+        createTestStore([{ ...interruptedJob }]),
+      );
+
+      expect(job?.id).toBe(interruptedJob.id);
+      expect(job?.checkpoint?.copiedPages).toEqual({ "source-1": "clone-1" });
+      expect(request.options.hierarchyMode).toBe("nested");
+      expect(request.options.async).toBe(false);
+    });
+
+    it("should refuse jobs that cannot be resumed", async () => {
+      Object.assign(process.env, env);
+      const resume = (job: Partial<CloneJob>) =>
+        openCloneJob(
+          { resume: interruptedJob.id },
+          createTestStore([{ ...interruptedJob, ...job } as CloneJob]),
+        );
+
+      await expect(resume({ status: "succeeded" })).rejects.toThrow("already completed");
+      await expect(resume({ status: "running" })).rejects.toThrow("is still running");
+      await expect(resume({ checkpoint: undefined })).rejects.toThrow("has no checkpoint");
+      await expect(
+        openCloneJob({ resume: "7d2d6c1e-0000-4000-8000-000000000000" }, createTestStore([])),
+      ).rejects.toThrow("Invalid request option resume");
+    });
+
+    it("should start new jobs with the request body", async () => {
+      Object.assign(process.env, env);
+
+      const { job } = await openCloneJob({ copyContent: true }, createTestStore([]));
+
+      expect(job?.status).toBe("queued");
+      expect(job?.requestBody).toEqual({ copyContent: true });
+      expect(job?.checkpoint).toBeUndefined();
+    });
+
+    it("should keep a restore's snapshot apart from the job", async () => {
+      Object.assign(process.env, env);
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const snapshot = {
+        version: 1,
+        sourceDatabaseId: env.SOURCE_DATABASE_ID,
+        title: "QA Checklist",
+        exportedAt: "2024-03-05T09:00:00.000Z",
+        schema: { Name: { type: "title", title: {} } },
+        pages: [],
+        hierarchy: [],
+      };
+      const store = createTestStore([]);
+
+      const { job } = await openCloneJob({ mode: "restore", snapshot }, store);
+
+      expect(job?.requestBody).toEqual({ mode: "restore" });
+      expect(await getSnapshotStore().get(job!.id)).toEqual(snapshot);
+
+      await store.save({ ...job!, status: "failed", checkpoint: interruptedJob.checkpoint });
+      const resumed = await openCloneJob({ resume: job!.id }, store);
+      expect(resumed.request.snapshot).toEqual(snapshot);
+    });
+
+    it("should only start jobs for async runs and clones that can be resumed", async () => {
+      Object.assign(process.env, env, {
+        SYNC_TARGET_DATABASE_ID: "22222222222222222222222222222222",
+      });
+      const store = createTestStore([]);
+      const save = vi.spyOn(store, "save");
+
+      expect((await openCloneJob({ dryRun: true }, store)).job).toBeUndefined();
+      expect((await openCloneJob({ mode: "sync" }, store)).job).toBeUndefined();
+      expect((await openCloneJob({ mode: "sync", async: true }, store)).job).toBeDefined();
+      expect(save).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("GET /api/jobs/:id", () => {
+    it("should return 404 for an unknown job", async () => {
+      Object.assign(process.env, env);
+      const res = await getJob("7d2d6c1e-0000-4000-8000-000000000000");
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+
+    it("should return 400 for an invalid job ID", async () => {
+      Object.assign(process.env, env);
+      const res = await getJob("unknown");
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it("should only allow GET requests", async () => {
+      const req = { method: "POST", query: { id: "x" }, headers: {} } as unknown as VercelRequest;
+      const res = createMockResponse();
+
+      await jobsHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(405);
+    });
+  });
+
+  describe("async clones", () => {
+    it("should return a job ID and record the failure on the job", async () => {
+      Object.assign(process.env, env);
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const req = createPostRequest({ async: true });
+      const res = createMockResponse();
+
+      await duplicateHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(202);
+      const accepted = vi.mocked(res.json).mock.calls[0][0];
+      expect(accepted.statusUrl).toBe(`/api/jobs/${accepted.jobId}`);
+
+      const job = await vi.waitFor(async () => {
+        const jobRes = await getJob(accepted.jobId);
+        expect(jobRes.status).toHaveBeenCalledWith(200);
+        const job = vi.mocked(jobRes.json).mock.calls[0][0];
+        expect(job.status).toBe("failed");
+        return job;
+      });
+      expect(job.phase).toBe("failed");
+      expect(job.error.error).toBe("Failed to clone database");
+    }, 10000);
+
+    it("should reject invalid options before creating a job", async () => {
+      Object.assign(process.env, env);
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const req = createPostRequest({ async: "yes" });
+      const res = createMockResponse();
+
+      await duplicateHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+  });
+});
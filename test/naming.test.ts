@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  dedupeDatabaseName,
+  formatDatePattern,
+  getCloneNamePattern,
+  getNextSequence,
+  renderDatabaseName,
+  resolveDatabaseName,
+} from "../lib/naming.js";
+import { notion } from "../lib/notion.js";
+import { prepareCloneRequest } from "../lib/request.js";
+import { getCloneRegistryStore } from "../lib/stores.js";
+
+const DATE = new Date("2024-03-05T23:30:00Z");
+
+const env = {
+  NOTION_TOKEN: "secret_test_token_123",
+  SOURCE_DATABASE_ID: "12345678901234567890123456789012",
+  PARENT_PAGE_ID: "98765432109876543210987654321098",
+};
+
+describe("Database naming", () => {
+  const backup = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...backup };
+    vi.restoreAllMocks();
+  });
+
+  describe("renderDatabaseName", () => {
+    it("should fill every token", () => {
+      const name = renderDatabaseName(
+        "{source} #{seq} {field:release} – {pages} cases ({date:yyyy-MM-dd HH:mm})",
+        {
+          date: DATE,
+          locale: "en-US",
+          timeZone: "America/New_York",
+          sourceTitle: "Checklist",
+          sequence: 12,
+          pagesCount: 48,
+          fields: { release: "2.4" },
+        },
+      );
+
+      expect(name).toBe("Checklist #12 2.4 – 48 cases (2024-03-05 18:30)");
+    });
+
+    it("should format {date} in the locale and time zone", () => {
+      const context = { date: DATE, locale: "en-GB", timeZone: "Asia/Tokyo" };
+
+      expect(renderDatabaseName("Run ({date})", context)).toBe("Run (06/03/2024, 08:30)");
+      expect(renderDatabaseName("Run {unknown} {field:missing}", context)).toBe(
+        "Run {unknown} {field:missing}",
+      );
+    });
+  });
+
+  describe("formatDatePattern", () => {
+    it("should use the time zone for every placeholder", () => {
+      expect(formatDatePattern(DATE, "dd.MM.yy HH:mm:ss", "Europe/Belgrade")).toBe(
+        "06.03.24 00:30:00",
+      );
+    });
+  });
+
+  describe("sequence numbers", () => {
+    it("should continue after the highest number among earlier clones", () => {
+      const pattern = getCloneNamePattern("Run #{seq} ({date:yyyy-MM-dd})");
+      const names = [
+        "Run #3 (2024-03-01)",
+        "Run #11 (2024-03-04) (2)",
+        "Run #40 notes",
+        "Other database",
+      ];
+
+      expect(getNextSequence(names, pattern)).toBe(12);
+      expect(getNextSequence([], pattern)).toBe(1);
+    });
+
+    it("should only count the clones of the same source and fields", () => {
+      const pattern = getCloneNamePattern("{source} {field:release} #{seq}", "en-GB", "UTC", {
+        sourceTitle: "Checkout (web)",
+        fields: { release: "2.4" },
+      });
+
+      expect(pattern.test("Checkout (web) 2.4 #3")).toBe(true);
+      expect(pattern.test("Payments 2.4 #3")).toBe(false);
+      expect(pattern.test("Checkout (web) 2.5 #3")).toBe(false);
+      expect(getNextSequence(["Checkout (web) 2.4 #3", "Payments 2.4 #9"], pattern)).toBe(4);
+    });
+
+    it("should continue from the profile's counter once it has one", async () => {
+      Object.assign(process.env, env, { NEW_DATABASE_NAME: "Run #{seq}" });
+      vi.spyOn(notion.blocks.children, "list").mockResolvedValue({
+        results: [
+          {
+            type: "child_database",
+            id: "db-9",
+            child_database: { title: "Run #9 (01.03.2024, 10:00)" },
+            created_time: "2024-03-01T09:00:00.000Z",
+          },
+        ],
+        has_more: false,
+        next_cursor: null,
+      } as any);
+      const request = { ...prepareCloneRequest({}), profileName: "naming-counter" };
+
+      // Without a registry the number continues from the names under the parent
+      expect((await resolveDatabaseName(request, "Checklist", 3)).sequence).toBe(10);
+      // The counter keeps going when the clones with the highest numbers are archived
+      await getCloneRegistryStore().save({ profile: "naming-counter", sequence: 14, clones: [] });
+      expect(await resolveDatabaseName(request, "Checklist", 3)).toMatchObject({
+        name: expect.stringMatching(/^Run #15 /),
+        sequence: 15,
+      });
+    });
+  });
+
+  describe("dedupeDatabaseName", () => {
+    it("should add a suffix to names that are taken", () => {
+      expect(dedupeDatabaseName("Run", ["Other"])).toBe("Run");
+      expect(dedupeDatabaseName("Run", ["Run", "Run (2)"])).toBe("Run (3)");
+    });
+  });
+
+  describe("prepareCloneRequest", () => {
+    it("should require the fields the template uses", () => {
+      Object.assign(process.env, env, { NEW_DATABASE_NAME: "Release {field:release}" });
+
+      expect(() => prepareCloneRequest({})).toThrow(
+        'Invalid request option nameFields: the name template needs "release"',
+      );
+      expect(prepareCloneRequest({ nameFields: { release: 2.4 } }).naming.fields).toEqual({
+        release: "2.4",
+      });
+    });
+
+    it("should reject unknown time zones", () => {
+      Object.assign(process.env, env, { NAME_TIME_ZONE: "Mars/Olympus" });
+
+      expect(() => prepareCloneRequest({})).toThrow('time zone "Mars/Olympus"');
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_PROPERTY_RULES,
+  applyValuePolicies,
+  buildPropertyValue,
+  filterDatabaseSchemaProperties,
+  filterPropertiesForCreation,
+  loadPropertyRules,
+} from "../lib/property-rules.js";
+import { findSchemaProblems } from "../lib/schema-drift.js";
+
+const customRules = {
+  ...DEFAULT_PROPERTY_RULES,
+  rules: [
+    { action: "rename" as const, property: "Done", to: "Passed" },
+    { action: "drop" as const, property: "Internal Notes" },
+    { action: "changeType" as const, property: "Priority", type: "rich_text" },
+    { action: "add" as const, property: "Run", type: "select", config: { options: [] } },
+    { action: "setDefault" as const, property: "Run", value: "Regression" },
+  ],
+};
+
+describe("Property rules", () => {
+  afterEach(() => {
+    Reflect.deleteProperty(process.env, "PROPERTY_RULES");
+  });
+
+  describe("default rules", () => {
+    it("should reproduce the prefixes and injected columns", () => {
+      const result = filterDatabaseSchemaProperties({
+        Name: { type: "title", title: {} },
+        Done: { type: "checkbox", checkbox: {} },
+      });
+
+      expect(Object.keys(result)).toEqual([
+        "a. Done",
+        "Name",
+        "Test Suite",
+        "z. Last Edited By",
+        "Suite Path",
+        "Suite Depth",
+        "Root Suite",
+      ]);
+      expect(result["Test Suite"]).toEqual({ type: "rich_text", rich_text: {} });
+      expect(result["z. Last Edited By"]).toEqual({ type: "last_edited_by", last_edited_by: {} });
+    });
+  });
+
+  describe("filterDatabaseSchemaProperties", () => {
+    it("should apply rename, drop, changeType and add rules to the schema", () => {
+      const result = filterDatabaseSchemaProperties(
+        {
+          Name: { type: "title", title: {} },
+          Done: { type: "checkbox", checkbox: {} },
+          "Internal Notes": { type: "rich_text", rich_text: {} },
+          Priority: { type: "select", select: { options: [] } },
+        },
+        customRules,
+      );
+
+      expect(result).toEqual({
+        Passed: { type: "checkbox", checkbox: {} },
+        Name: { type: "title", title: {} },
+        Priority: { type: "rich_text", rich_text: {} },
+        Run: { type: "select", select: { options: [] } },
+      });
+    });
+  });
+
+  describe("filterPropertiesForCreation", () => {
+    it("should apply the same rules to page values", () => {
+      const result = filterPropertiesForCreation(
+        {
+          Name: { type: "title", title: [{ plain_text: "Login", text: { content: "Login" } }] },
+          Done: { type: "checkbox", checkbox: true },
+          "Internal Notes": { type: "rich_text", rich_text: [] },
+          Priority: { type: "select", select: { name: "High" } },
+        },
+        customRules,
+      );
+
+      expect(result).toEqual({
+        Name: { type: "title", title: [{ plain_text: "Login", text: { content: "Login" } }] },
+        Passed: { type: "checkbox", checkbox: true },
+        Priority: { type: "rich_text", rich_text: [{ type: "text", text: { content: "High" } }] },
+        Run: { type: "select", select: { name: "Regression" } },
+      });
+    });
+  });
+
+  describe("loadPropertyRules", () => {
+    it("should fall back to the defaults", () => {
+      expect(loadPropertyRules()).toEqual(DEFAULT_PROPERTY_RULES);
+    });
+
+    it("should merge configured rules with the default hierarchy", () => {
+      const suiteRule = { action: "add", property: "Suite", type: "rich_text" };
+      process.env.PROPERTY_RULES = JSON.stringify({ rules: [suiteRule], suiteProperty: "Suite" });
+
+      const rules = loadPropertyRules();
+      expect(rules.rules).toEqual([suiteRule]);
+      expect(rules.suiteProperty).toBe("Suite");
+      expect(rules.hierarchy).toEqual(DEFAULT_PROPERTY_RULES.hierarchy);
+    });
+
+    it("should reject unknown rule actions", () => {
+      expect(() => loadPropertyRules({ rules: [{ action: "explode", property: "Done" }] })).toThrow(
+        "invalid rule",
+      );
+    });
+
+    it("should reject rules without the fields their action needs", () => {
+      const load = (rule: any) =>
+        loadPropertyRules({ rules: [...DEFAULT_PROPERTY_RULES.rules, rule] }, "smoke");
+
+      expect(() => load({ action: "rename", property: "Done" })).toThrow("invalid rule");
+      expect(() => load({ action: "add", property: "Run" })).toThrow("invalid rule");
+      expect(() => load({ action: "setDefault", property: "Run" })).toThrow("invalid rule");
+      expect(() => loadPropertyRules({ rules: {} }, "smoke")).toThrow("not an array");
+    });
+
+    it("should require an add rule for the suite column", () => {
+      expect(() => loadPropertyRules({ rules: [], suiteProperty: "Suite" }, "smoke")).toThrow(
+        'no "add" rule for the suiteProperty column "Suite"',
+      );
+    });
+
+    it("should name where the invalid rules come from", () => {
+      const invalid = { rules: [{ action: "rename", property: "Done" }] };
+
+      expect(() => loadPropertyRules(invalid, "smoke")).toThrow(
+        'Rules of profile "smoke" in CLONE_PROFILES_FILE environment variable',
+      );
+      process.env.PROPERTY_RULES = JSON.stringify(invalid);
+      expect(() => loadPropertyRules()).toThrow("PROPERTY_RULES environment variable contains");
+    });
+  });
+
+  describe("buildPropertyValue", () => {
+    it("should build typed values from plain values", () => {
+      expect(buildPropertyValue("checkbox", false)).toEqual({ type: "checkbox", checkbox: false });
+      expect(buildPropertyValue("number", "3")).toEqual({ type: "number", number: 3 });
+      expect(buildPropertyValue("multi_select", "smoke, ui")).toEqual({
+        type: "multi_select",
+        multi_select: [{ name: "smoke" }, { name: "ui" }],
+      });
+      expect(buildPropertyValue("status", null)).toEqual({ type: "status", status: null });
+    });
+  });
+
+  describe("applyValuePolicies", () => {
+    const pageValues = {
+      Name: { type: "title", title: [{ text: { content: "Login" } }] },
+      "a. Done": { type: "checkbox", checkbox: true },
+      Status: { type: "status", status: { name: "Passed" } },
+      Notes: { type: "rich_text", rich_text: [{ text: { content: "Flaky on Safari" } }] },
+    };
+
+    it("should keep, clear or set values per property", () => {
+      const result = applyValuePolicies(pageValues, {
+        Name: { policy: "keep" },
+        Done: { policy: "clear" },
+        Status: { policy: "set", value: "Not started" },
+        Notes: { policy: "clear" },
+      });
+
+      expect(result).toEqual({
+        Name: pageValues.Name,
+        "a. Done": { type: "checkbox", checkbox: false },
+        Status: { type: "status", status: { name: "Not started" } },
+        Notes: { type: "rich_text", rich_text: [] },
+      });
+    });
+
+    it("should ignore policies for properties the page does not have", () => {
+      expect(applyValuePolicies(pageValues, { Missing: { policy: "clear" } })).toEqual(pageValues);
+    });
+  });
+  describe("findSchemaProblems", () => {
+    it("should report a missing hierarchy relation and renamed or retyped properties", () => {
+      const properties = {
+        Name: { type: "title" },
+        Done: { type: "checkbox" },
+        "Sub-item": { type: "rich_text" },
+      };
+
+      expect(findSchemaProblems(properties, customRules)).toEqual([
+        expect.stringContaining("No hierarchy relation found"),
+        'Property "Priority" (cloned as rich_text) is missing',
+      ]);
+      expect(
+        findSchemaProblems(
+          { ...properties, "Parent item": { type: "relation" } },
+          DEFAULT_PROPERTY_RULES,
+        ),
+      ).toEqual([
+        'Property "Action" (cloned as "b. Action") is missing',
+        'Property "URL" (cloned as "u. URL") is missing',
+        'Property "Last Edited By" (cloned as "z. Last Edited By") is missing',
+      ]);
+    });
+  });
+});
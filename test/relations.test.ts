@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import { buildDerivedPropertyConfig, collectDerivedProperties } from "../lib/derived-properties.js";
+import {
+  buildRelationSchema,
+  collectRelationProperties,
+  remapRelationIds,
+} from "../lib/relations.js";
+
+const SOURCE_DB = "11111111-1111-1111-1111-111111111111";
+const TARGET_DB = "22222222222222222222222222222222";
+const OTHER_DB = "33333333333333333333333333333333";
+
+describe("Relation remapping", () => {
+  describe("collectRelationProperties", () => {
+    it("should collect only relation properties and remember the source name", () => {
+      const result = collectRelationProperties({
+        Name: { type: "title" },
+        "Parent item": { id: "p1", type: "relation", relation: { database_id: SOURCE_DB } },
+        Tags: { type: "multi_select" },
+      });
+
+      expect(Object.keys(result)).toEqual(["Parent item"]);
+      expect(result["Parent item"].sourceName).toBe("Parent item");
+    });
+  });
+
+  describe("buildRelationSchema", () => {
+    it("should point self-relations at the clone and keep external targets", () => {
+      const schema = buildRelationSchema(
+        {
+          "Parent item": { type: "relation", relation: { database_id: SOURCE_DB } },
+          Project: { type: "relation", relation: { database_id: OTHER_DB } },
+        },
+        SOURCE_DB.replace(/-/g, ""),
+        TARGET_DB,
+      );
+
+      expect(schema["Parent item"].relation).toEqual({
+        database_id: TARGET_DB,
+        type: "single_property",
+        single_property: {},
+      });
+      expect(schema.Project.relation.database_id).toBe(OTHER_DB);
+    });
+  });
+
+  describe("remapRelationIds", () => {
+    const pageIdMap = new Map([
+      ["source-a", "clone-a"],
+      ["source-b", "clone-b"],
+    ]);
+
+    it("should rewrite self-relation links onto cloned pages", () => {
+      const result = remapRelationIds(["source-a", "source-b"], pageIdMap, true);
+      expect(result).toEqual({ ids: ["clone-a", "clone-b"], remapped: 2, unresolved: 0 });
+    });
+
+    it("should count links to pages that were not cloned as unresolved", () => {
+      const result = remapRelationIds(["source-a", "source-missing"], pageIdMap, true);
+      expect(result).toEqual({ ids: ["clone-a"], remapped: 1, unresolved: 1 });
+    });
+
+    it("should leave links into other databases untouched", () => {
+      const result = remapRelationIds(["external-page"], pageIdMap, false);
+      expect(result).toEqual({ ids: ["external-page"], remapped: 0, unresolved: 0 });
+    });
+  });
+
+  describe("Derived properties", () => {
+    const clonedRelations = new Map([
+      ["Sub-items", { name: "Sub-items", isSelfRelation: true }],
+      ["Project", { name: "Project", isSelfRelation: false }],
+    ]);
+
+    it("should order rollups before formulas", () => {
+      const result = collectDerivedProperties({
+        Progress: { type: "formula", formula: { expression: "1" } },
+        Name: { type: "title" },
+        "Done Count": { type: "rollup", rollup: {} },
+      });
+
+      expect(Object.keys(result)).toEqual(["Done Count", "Progress"]);
+    });
+
+    it("should carry formulas over properties that keep their name as-is", () => {
+      const result = buildDerivedPropertyConfig(
+        { type: "formula", formula: { expression: 'prop("Priority") == "High"' } },
+        clonedRelations,
+      );
+
+      expect(result).toEqual({
+        config: { formula: { expression: 'prop("Priority") == "High"' } },
+      });
+    });
+
+    it("should point formula references to renamed properties at their new names", () => {
+      const sourceProperties = {
+        Done: { id: "a%3Bb", type: "checkbox" },
+        'Say "hi"': { id: "q1", type: "rich_text" },
+      };
+
+      const byName = buildDerivedPropertyConfig(
+        {
+          type: "formula",
+          formula: { expression: 'if(prop("Done"), 1, 0) + length(prop("Say \\"hi\\""))' },
+        },
+        clonedRelations,
+        undefined,
+        sourceProperties,
+      );
+      const byId = buildDerivedPropertyConfig(
+        {
+          type: "formula",
+          formula: {
+            expression:
+              "if({{notion:block_property:a;b:00000000-0000-0000-0000-000000000000:1}}, 1, 0)",
+          },
+        },
+        clonedRelations,
+        undefined,
+        sourceProperties,
+      );
+
+      expect(byName).toEqual({
+        config: {
+          formula: { expression: 'if(prop("a. Done"), 1, 0) + length(prop("Say \\"hi\\""))' },
+        },
+      });
+      expect(byId).toEqual({ config: { formula: { expression: 'if(prop("a. Done"), 1, 0)' } } });
+    });
+
+    it("should rebuild self-relation rollups against renamed properties", () => {
+      const result = buildDerivedPropertyConfig(
+        {
+          type: "rollup",
+          rollup: {
+            relation_property_name: "Sub-items",
+            rollup_property_name: "Done",
+            function: "percent_checked",
+          },
+        },
+        clonedRelations,
+      );
+
+      expect(result).toEqual({
+        config: {
+          rollup: {
+            relation_property_name: "Sub-items",
+            rollup_property_name: "a. Done",
+            function: "percent_checked",
+          },
+        },
+      });
+    });
+
+    it("should explain why a rollup cannot be recreated", () => {
+      const result = buildDerivedPropertyConfig(
+        {
+          type: "rollup",
+          rollup: { relation_property_name: "Blocked by", rollup_property_name: "Name" },
+        },
+        clonedRelations,
+      );
+
+      expect(result).toEqual({
+        reason: 'Relation property "Blocked by" is not available in the clone',
+      });
+    });
+  });
+});
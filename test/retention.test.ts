@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { formatDatabaseName, getCloneNamePattern } from "../lib/naming.js";
+import { notion } from "../lib/notion.js";
+import { prepareCloneRequest } from "../lib/request.js";
+import {
+  applyRetentionPolicy,
+  recordClone,
+  resolveRetentionPolicy,
+  selectExpiredClones,
+} from "../lib/retention.js";
+import { getCloneRegistryStore } from "../lib/stores.js";
+
+const NOW = Date.parse("2024-03-20T12:00:00Z");
+
+const profile = {
+  sourceDatabaseId: "12345678901234567890123456789012",
+  parentPageId: "98765432109876543210987654321098",
+  nameTemplate: "Regression (v1.2) ({date})",
+  options: {},
+};
+
+function clone(id: string, createdTime: string) {
+  return { id, title: `Regression (v1.2) (${id})`, createdTime };
+}
+
+const clones = [
+  clone("march-01", "2024-03-01T09:00:00.000Z"),
+  clone("march-19", "2024-03-19T09:00:00.000Z"),
+  clone("feb-10", "2024-02-10T09:00:00.000Z"),
+  clone("march-10", "2024-03-10T09:00:00.000Z"),
+];
+
+describe("Retention", () => {
+  const backup = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...backup };
+    vi.restoreAllMocks();
+  });
+
+  describe("getCloneNamePattern", () => {
+    it("should match the names the template produces", () => {
+      const pattern = getCloneNamePattern(profile.nameTemplate);
+
+      expect(pattern.test(formatDatabaseName(profile.nameTemplate, new Date(NOW)))).toBe(true);
+      expect(pattern.test("Regression (v1.2) (notes)")).toBe(false);
+      expect(pattern.test("Regression (v1x2) (20.03.2024, 13:00)")).toBe(false);
+    });
+  });
+
+  describe("selectExpiredClones", () => {
+    it("should keep the newest clones, counting the one the run creates", () => {
+      const expired = selectExpiredClones(clones, { keepLast: 3 }, NOW, "march-19");
+
+      expect(expired.map((item) => item.id)).toEqual(["feb-10"]);
+    });
+
+    it("should count the clone a dry run would create", () => {
+      const expired = selectExpiredClones(clones, { keepLast: 3 }, NOW);
+
+      expect(expired.map((item) => item.id)).toEqual(["march-01", "feb-10"]);
+    });
+
+    it("should archive clones older than maxAgeDays", () => {
+      const expired = selectExpiredClones(clones, { maxAgeDays: 14 }, NOW, "march-19");
+
+      expect(expired.map((item) => item.id)).toEqual(["march-01", "feb-10"]);
+      expect(selectExpiredClones(clones, { maxAgeDays: 60 }, NOW)).toEqual([]);
+    });
+  });
+
+  describe("applyRetentionPolicy", () => {
+    it("should only archive the profile's own clones", async () => {
+      Object.assign(process.env, {
+        NOTION_TOKEN: "secret_test_token_123",
+        SOURCE_DATABASE_ID: profile.sourceDatabaseId,
+        PARENT_PAGE_ID: profile.parentPageId,
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const database = (id: string, createdTime: string) => ({
+        type: "child_database",
+        id,
+        child_database: { title: "Regression (v1.2) (01.03.2024, 10:00)" },
+        created_time: createdTime,
+      });
+      // Both profiles clone under the same parent with the same name template
+      const ownClone = "aaaaaaaa-0000-4000-8000-000000000001";
+      const otherProfileClone = "bbbbbbbb-0000-4000-8000-000000000002";
+      const newClone = "aaaaaaaa-0000-4000-8000-000000000003";
+      vi.spyOn(notion.blocks.children, "list").mockResolvedValue({
+        results: [
+          database(ownClone, "2024-03-01T09:00:00.000Z"),
+          database(otherProfileClone, "2024-02-01T09:00:00.000Z"),
+          database(newClone, "2024-03-20T09:00:00.000Z"),
+        ],
+        has_more: false,
+        next_cursor: null,
+      } as any);
+      const deleteBlock = vi.spyOn(notion.blocks, "delete").mockResolvedValue({} as any);
+      const store = getCloneRegistryStore();
+      const record = (id: string) => ({ id, title: "", createdTime: "" });
+      await store.save({
+        profile: "retention-own",
+        sequence: 2,
+        clones: [record(ownClone), record(newClone)],
+      });
+      await store.save({
+        profile: "retention-other",
+        sequence: 1,
+        clones: [record(otherProfileClone)],
+      });
+
+      const request = {
+        ...prepareCloneRequest({}),
+        profileName: "retention-own",
+        retention: { keepLast: 1 },
+      };
+      const archived = await applyRetentionPolicy(
+        request,
+        newClone,
+        getCloneNamePattern(profile.nameTemplate),
+      );
+
+      expect(archived.map((clone) => clone.id)).toEqual([ownClone]);
+      expect(deleteBlock).toHaveBeenCalledTimes(1);
+      expect(deleteBlock).toHaveBeenCalledWith({ block_id: ownClone });
+      expect((await store.get("retention-own"))?.clones.map((clone) => clone.id)).toEqual([
+        newClone,
+      ]);
+    });
+
+    it("should reach the clones made before the profile had a registry", async () => {
+      Object.assign(process.env, {
+        NOTION_TOKEN: "secret_test_token_123",
+        SOURCE_DATABASE_ID: profile.sourceDatabaseId,
+        PARENT_PAGE_ID: profile.parentPageId,
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const database = (id: string, title: string, createdTime: string) => ({
+        type: "child_database",
+        id,
+        child_database: { title },
+        created_time: createdTime,
+      });
+      const oldClone = "cccccccc-0000-4000-8000-000000000001";
+      const notes = "cccccccc-0000-4000-8000-000000000002";
+      const newClone = "cccccccc-0000-4000-8000-000000000003";
+      vi.spyOn(notion.blocks.children, "list").mockResolvedValue({
+        results: [
+          database(oldClone, "Regression (v1.2) (01.02.2024, 10:00)", "2024-02-01T09:00:00.000Z"),
+          database(notes, "Regression (v1.2) notes", "2024-01-01T09:00:00.000Z"),
+          database(newClone, "Regression (v1.2) (20.03.2024, 10:00)", "2024-03-20T09:00:00.000Z"),
+        ],
+        has_more: false,
+        next_cursor: null,
+      } as any);
+      const deleteBlock = vi.spyOn(notion.blocks, "delete").mockResolvedValue({} as any);
+      const namePattern = getCloneNamePattern(profile.nameTemplate);
+
+      const request = {
+        ...prepareCloneRequest({}),
+        profileName: "retention-upgraded",
+        retention: { keepLast: 1 },
+      };
+      await recordClone(
+        request,
+        { id: newClone, title: "", createdTime: "2024-03-20T09:00:00.000Z" },
+        1,
+        namePattern,
+      );
+      const archived = await applyRetentionPolicy(request, newClone, namePattern);
+
+      expect(archived.map((clone) => clone.id)).toEqual([oldClone]);
+      expect(deleteBlock).toHaveBeenCalledTimes(1);
+      expect(
+        (await getCloneRegistryStore().get("retention-upgraded"))?.clones.map((clone) => clone.id),
+      ).toEqual([newClone]);
+    });
+  });
+
+  describe("resolveRetentionPolicy", () => {
+    it("should prefer the profile policy over the environment", () => {
+      process.env.RETENTION_KEEP_LAST = "5";
+
+      expect(resolveRetentionPolicy(profile)).toEqual({ keepLast: 5, maxAgeDays: undefined });
+      expect(resolveRetentionPolicy({ ...profile, retention: { maxAgeDays: 30 } })).toEqual({
+        keepLast: undefined,
+        maxAgeDays: 30,
+      });
+    });
+
+    it("should keep every clone without a policy", () => {
+      expect(resolveRetentionPolicy(profile)).toBeUndefined();
+    });
+
+    it("should reject invalid limits", () => {
+      process.env.RETENTION_KEEP_LAST = "0";
+      expect(() => resolveRetentionPolicy(profile)).toThrow("must be a positive integer");
+
+      expect(() => resolveRetentionPolicy({ ...profile, retention: { maxAgeDays: -1 } })).toThrow(
+        "must be a positive number",
+      );
+    });
+  });
+});
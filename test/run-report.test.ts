@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { parseCloneOptions } from "../lib/options.js";
+import { buildRunReport } from "../lib/report.js";
+
+function issue(id: string, reason: string) {
+  return { id, title: `Page ${id}`, reason };
+}
+
+const phases = [{ phase: "copying_pages" as const, durationMs: 1200 }];
+
+function report(failedCount: number, droppedCount: number, threshold = 1) {
+  return buildRunReport(
+    {
+      skippedPages: [issue("root", "No parent found - skipping page without Test Suite")],
+      failedPages: Array.from({ length: failedCount }, (_, i) => issue(`f${i}`, "timeout")),
+      droppedPages: Array.from({ length: droppedCount }, (_, i) => issue(`d${i}`, "no body")),
+    },
+    10,
+    [],
+    { cycles: [], multiParentPages: [] },
+    phases,
+    threshold,
+  );
+}
+
+describe("Run reports", () => {
+  const backup = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...backup };
+  });
+
+  describe("buildRunReport", () => {
+    it("should only count skipped pages as a success", () => {
+      const result = report(0, 0);
+
+      expect(result.status).toBe("succeeded");
+      expect(result.skippedPages).toHaveLength(1);
+      expect(result.phases).toEqual(phases);
+    });
+
+    it("should be partial when pages failed or lost data", () => {
+      expect(report(2, 0).status).toBe("partial");
+      expect(report(0, 1).status).toBe("partial");
+    });
+
+    it("should fail above the failure threshold", () => {
+      expect(report(2, 0, 0.2).status).toBe("partial");
+      expect(report(3, 0, 0.2).status).toBe("failed");
+      expect(report(1, 0, 0).status).toBe("failed");
+    });
+  });
+
+  describe("failureThreshold", () => {
+    it("should take the threshold from the request or FAILURE_THRESHOLD", () => {
+      expect(parseCloneOptions({}).failureThreshold).toBe(1);
+
+      process.env.FAILURE_THRESHOLD = "0.25";
+      expect(parseCloneOptions({}).failureThreshold).toBe(0.25);
+      expect(parseCloneOptions({ failureThreshold: 0 }).failureThreshold).toBe(0);
+    });
+
+    it("should reject values outside 0 to 1", () => {
+      expect(() => parseCloneOptions({ failureThreshold: 1.5 })).toThrow(
+        "Invalid request option failureThreshold",
+      );
+      expect(() => parseCloneOptions({ failureThreshold: "10%" })).toThrow(
+        "must be between 0 and 1",
+      );
+    });
+
+    it("should report an invalid FAILURE_THRESHOLD as configuration", () => {
+      process.env.FAILURE_THRESHOLD = "10%";
+      expect(() => parseCloneOptions({})).toThrow(
+        "FAILURE_THRESHOLD environment variable must be a number between 0 and 1",
+      );
+    });
+  });
+});
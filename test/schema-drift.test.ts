@@ -0,0 +1,174 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parseCloneOptions } from "../lib/options.js";
+import { DEFAULT_PROPERTY_RULES } from "../lib/property-rules.js";
+import type { CloneRequest } from "../lib/request.js";
+import {
+  checkSourceSchema,
+  compareSchemas,
+  saveSchemaFingerprint,
+  takeSchemaFingerprint,
+} from "../lib/schema-drift.js";
+import { createFileSchemaStore } from "../lib/stores.js";
+
+function database(properties: { [name: string]: [string, string] }) {
+  return {
+    id: "11111111-2222-3333-4444-555555555555",
+    properties: Object.fromEntries(
+      Object.entries(properties).map(([name, [id, type]]) => [name, { id, type }]),
+    ),
+  };
+}
+
+const before = takeSchemaFingerprint(
+  database({
+    Name: ["title", "title"],
+    Done: ["a1", "checkbox"],
+    Priority: ["b2", "select"],
+    Notes: ["c3", "rich_text"],
+    "Sub-items": ["d4", "relation"],
+    "Parent item": ["e5", "relation"],
+  }),
+  new Date("2024-03-01T09:00:00Z"),
+);
+
+describe("Schema drift", () => {
+  const backup = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...backup };
+    vi.restoreAllMocks();
+  });
+
+  describe("compareSchemas", () => {
+    it("should list added, removed, renamed and retyped properties", () => {
+      const after = takeSchemaFingerprint(
+        database({
+          Name: ["title", "title"],
+          Done: ["a1", "checkbox"],
+          Severity: ["b2", "select"],
+          Notes: ["c3", "multi_select"],
+          Owner: ["f6", "people"],
+          "Sub-items": ["d4", "relation"],
+          "Parent item": ["e5", "relation"],
+        }),
+      );
+
+      expect(compareSchemas(before, after, DEFAULT_PROPERTY_RULES)).toEqual({
+        previousRunAt: "2024-03-01T09:00:00.000Z",
+        added: [{ name: "Owner", type: "people" }],
+        removed: [],
+        renamed: [{ from: "Priority", to: "Severity" }],
+        retyped: [{ name: "Notes", from: "rich_text", to: "multi_select" }],
+        missingDependencies: [],
+      });
+    });
+
+    it("should flag renamed hierarchy fields and renamed rule properties", () => {
+      const after = takeSchemaFingerprint(
+        database({
+          Name: ["title", "title"],
+          Passed: ["a1", "checkbox"],
+          Children: ["d4", "relation"],
+          "Parent item": ["e5", "rich_text"],
+        }),
+      );
+
+      const drift = compareSchemas(before, after, DEFAULT_PROPERTY_RULES);
+
+      expect(drift.removed.map((prop) => prop.name)).toEqual(["Priority", "Notes"]);
+      expect(drift.missingDependencies).toEqual(["Sub-items", "Parent item", "Done"]);
+    });
+  });
+
+  describe("createFileSchemaStore", () => {
+    it("should keep one fingerprint per source database", async () => {
+      const directory = mkdtempSync(join(tmpdir(), "schemas-test-"));
+      const store = createFileSchemaStore(directory);
+
+      try {
+        expect(await store.get(before.sourceDatabaseId)).toBeUndefined();
+        await store.save(before);
+        expect(await store.get("11111111222233334444555555555555")).toEqual(before);
+        await expect(store.get("../jobs")).rejects.toThrow("Invalid database ID format");
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("checkSourceSchema", () => {
+    it("should report a missing dependency on every run, not only the first", async () => {
+      const directory = mkdtempSync(join(tmpdir(), "schemas-test-"));
+      Object.assign(process.env, { JOB_STORE: "file", JOB_STORE_DIR: directory });
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const source = database({ Name: ["title", "title"], Children: ["d4", "relation"] });
+      const request = (schemaDriftPolicy: string) =>
+        ({
+          rules: DEFAULT_PROPERTY_RULES,
+          options: parseCloneOptions({ schemaDriftPolicy }),
+        }) as unknown as CloneRequest;
+
+      try {
+        const firstRun = await checkSourceSchema(source, request("warn"));
+        await saveSchemaFingerprint(source);
+        const secondRun = await checkSourceSchema(source, request("warn"));
+
+        expect(firstRun.schemaProblems[0]).toMatch(/^No hierarchy relation found/);
+        expect(secondRun.schemaDrift).toBeUndefined();
+        expect(secondRun.schemaProblems).toEqual(firstRun.schemaProblems);
+        await expect(checkSourceSchema(source, request("fail"))).rejects.toThrow(
+          "Source schema does not fit the clone",
+        );
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it("should only fail on rule properties the source had at the last run", async () => {
+      const directory = mkdtempSync(join(tmpdir(), "schemas-test-"));
+      Object.assign(process.env, { JOB_STORE: "file", JOB_STORE_DIR: directory });
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const request = {
+        rules: DEFAULT_PROPERTY_RULES,
+        options: parseCloneOptions({ schemaDriftPolicy: "fail" }),
+      } as unknown as CloneRequest;
+      // The default rules rename URL, which this source never had
+      const source = database({
+        Name: ["title", "title"],
+        Done: ["a1", "checkbox"],
+        "Parent item": ["e5", "relation"],
+      });
+
+      try {
+        const check = await checkSourceSchema(source, request);
+        expect(check.schemaProblems).toContain('Property "URL" (cloned as "u. URL") is missing');
+
+        await saveSchemaFingerprint(source);
+        const withoutDone = database({
+          Name: ["title", "title"],
+          "Parent item": ["e5", "relation"],
+        });
+        await expect(checkSourceSchema(withoutDone, request)).rejects.toThrow(
+          'Property "Done" is gone or changed since',
+        );
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("schemaDriftPolicy", () => {
+    it("should default to warn and accept SCHEMA_DRIFT_POLICY", () => {
+      expect(parseCloneOptions({}).schemaDriftPolicy).toBe("warn");
+
+      process.env.SCHEMA_DRIFT_POLICY = "fail";
+      expect(parseCloneOptions({}).schemaDriftPolicy).toBe("fail");
+      expect(() => parseCloneOptions({ schemaDriftPolicy: "ignore" })).toThrow(
+        "Invalid request option schemaDriftPolicy",
+      );
+    });
+  });
+});
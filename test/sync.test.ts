@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parseCloneOptions } from "../lib/options.js";
+import {
+  DEFAULT_PROPERTY_RULES,
+  buildCloneSchema,
+  buildClonedPageProperties,
+} from "../lib/property-rules.js";
+import { prepareCloneRequest } from "../lib/request.js";
+import { buildSyncedPageProperties, isSourcePageChanged } from "../lib/sync.js";
+
+const env = {
+  NOTION_TOKEN: "secret_test_token_123",
+  SOURCE_DATABASE_ID: "12345678901234567890123456789012",
+  PARENT_PAGE_ID: "98765432109876543210987654321098",
+};
+
+const sourcePage = {
+  id: "5f0c2a9e-3b7d-4c1a-9e2f-6d8b7a1c4e30",
+  last_edited_time: "2024-03-05T09:12:00.000Z",
+  properties: {
+    Name: { type: "title", title: [{ plain_text: "Login works" }] },
+    Done: { type: "checkbox", checkbox: true },
+  },
+};
+
+describe("Sync mode", () => {
+  const backup = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...backup };
+    vi.restoreAllMocks();
+  });
+
+  describe("buildCloneSchema", () => {
+    it("should add the Source ID column to the clone", () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const schema = buildCloneSchema({ Name: { type: "title", title: {} } });
+
+      expect(schema["Source ID"]).toEqual({ type: "rich_text", rich_text: {} });
+    });
+  });
+
+  describe("buildClonedPageProperties", () => {
+    it("should store the source page ID and the Test Suite on each page", () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const properties = buildClonedPageProperties(
+        sourcePage,
+        "Authentication",
+        parseCloneOptions({}),
+        DEFAULT_PROPERTY_RULES,
+      );
+
+      expect(properties["a. Done"]).toEqual({ type: "checkbox", checkbox: true });
+      expect(properties["Test Suite"].rich_text[0].text.content).toBe("Authentication");
+      expect(properties["Source ID"].rich_text[0].text.content).toBe(sourcePage.id);
+    });
+  });
+
+  describe("isSourcePageChanged", () => {
+    const suite = { suiteTitle: "Authentication", suitePath: ["Authentication"] };
+    const synced = (sourceEditedTime: string) => ({ sourceEditedTime, ...suite });
+
+    it("should compare with the source edit time saved by the last sync", () => {
+      expect(isSourcePageChanged(sourcePage, suite, synced("2024-03-05T09:12:00.000Z"))).toBe(
+        false,
+      );
+      expect(isSourcePageChanged(sourcePage, suite, synced("2024-03-05T09:00:00.000Z"))).toBe(true);
+      // Edits to the clone leave its source edit time alone
+      expect(isSourcePageChanged(sourcePage, suite, undefined)).toBe(true);
+    });
+
+    it("should treat a page moved to another suite as changed", () => {
+      const synced = { sourceEditedTime: sourcePage.last_edited_time, ...suite };
+      const moved = { suiteTitle: "Billing", suitePath: ["Billing"] };
+
+      expect(isSourcePageChanged(sourcePage, moved, synced)).toBe(true);
+      expect(
+        isSourcePageChanged(
+          sourcePage,
+          { ...suite, suitePath: ["Account", "Authentication"] },
+          synced,
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("buildSyncedPageProperties", () => {
+    it("should leave the columns with value policies alone on update", () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const options = parseCloneOptions({ valuePolicies: { Done: "clear" } });
+      const suite = { suiteTitle: "Authentication", suitePath: ["Authentication"] };
+
+      const created = buildClonedPageProperties(
+        sourcePage,
+        suite.suiteTitle,
+        options,
+        DEFAULT_PROPERTY_RULES,
+      );
+      const updated = buildSyncedPageProperties(sourcePage, suite, options, DEFAULT_PROPERTY_RULES);
+
+      expect(created["a. Done"]).toEqual({ type: "checkbox", checkbox: false });
+      expect(updated).not.toHaveProperty("a. Done");
+      expect(updated.Name).toEqual(created.Name);
+      expect(updated["Source ID"]).toEqual(created["Source ID"]);
+    });
+  });
+
+  describe("options", () => {
+    it("should validate the mode and refuse dry runs of a sync", () => {
+      expect(parseCloneOptions({}).mode).toBe("clone");
+      expect(parseCloneOptions({ mode: "sync" }).mode).toBe("sync");
+      expect(() => parseCloneOptions({ mode: "mirror" })).toThrow("Invalid request option mode");
+      expect(() => parseCloneOptions({ mode: "sync", dryRun: true })).toThrow(
+        "not supported in sync mode",
+      );
+    });
+
+    it("should require a sync target from the server configuration", () => {
+      Object.assign(process.env, env);
+
+      expect(() => prepareCloneRequest({ mode: "sync" })).toThrow(
+        'profile "default" has no sync target database',
+      );
+
+      process.env.SYNC_TARGET_DATABASE_ID = "22222222222222222222222222222222";
+      const request = prepareCloneRequest({ mode: "sync" });
+      expect(request.profile.syncTargetDatabaseId).toBe("22222222222222222222222222222222");
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from "vitest";
+import { ThrottledClient } from "../lib/notion.js";
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return {
+    ok: status < 400,
+    status,
+    headers: new Headers(headers),
+    text: async () => JSON.stringify(body),
+  };
+}
+
+const rateLimited = () =>
+  jsonResponse(
+    429,
+    { object: "error", code: "rate_limited", message: "Rate limited" },
+    { "retry-after": "0" },
+  );
+
+const serverError = () =>
+  jsonResponse(503, { object: "error", code: "service_unavailable", message: "Unavailable" });
+
+function createClient(fetch: any, maxRetries = 3, maxConcurrency?: number) {
+  return new ThrottledClient({
+    auth: "secret_test_token_123",
+    fetch,
+    requestsPerSecond: 1000,
+    baseRetryDelayMs: 1,
+    maxRetries,
+    maxConcurrency,
+  });
+}
+
+const createPage = (client: ThrottledClient) =>
+  client.pages.create({ parent: { database_id: "db" }, properties: {} });
+
+describe("ThrottledClient", () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+
+  it("should retry rate limited and server errors until the request succeeds", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(rateLimited())
+      .mockResolvedValueOnce(serverError())
+      .mockResolvedValueOnce(jsonResponse(200, { object: "database", id: "db" }));
+    const client = createClient(fetch);
+
+    const database = await client.databases.retrieve({ database_id: "db" });
+
+    expect(database.id).toBe("db");
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(client.stats).toEqual({ retriedRequestsCount: 2, rateLimitedCount: 1 });
+  });
+
+  it("should give up after the retry limit", async () => {
+    const fetch = vi.fn().mockImplementation(async () => serverError());
+    const client = createClient(fetch, 2);
+
+    await expect(client.databases.retrieve({ database_id: "db" })).rejects.toThrow("Unavailable");
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry client errors", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(
+        jsonResponse(404, { object: "error", code: "object_not_found", message: "Could not find" }),
+      );
+    const client = createClient(fetch);
+
+    await expect(client.databases.retrieve({ database_id: "db" })).rejects.toThrow(
+      "Could not find",
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(client.stats.retriedRequestsCount).toBe(0);
+  });
+
+  it("should not resend page creations that may have been applied", async () => {
+    const fetch = vi.fn().mockImplementation(async () => serverError());
+    const client = createClient(fetch);
+
+    await expect(createPage(client)).rejects.toThrow("Unavailable");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should resend page creations that were rate limited", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(rateLimited())
+      .mockResolvedValueOnce(jsonResponse(200, { object: "page", id: "page" }));
+    const client = createClient(fetch);
+
+    expect((await createPage(client)).id).toBe("page");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should let other requests run while one waits to retry", async () => {
+    const calls: string[] = [];
+    const fetch = vi.fn().mockImplementation(async (url: string) => {
+      calls.push(url);
+      return calls.length === 1
+        ? jsonResponse(
+            429,
+            { object: "error", code: "rate_limited", message: "Rate limited" },
+            { "retry-after": "0.05" },
+          )
+        : jsonResponse(200, { object: "page", id: "page" });
+    });
+    const client = createClient(fetch, 3, 1);
+
+    await Promise.all([
+      client.pages.retrieve({ page_id: "first" }),
+      client.pages.retrieve({ page_id: "second" }),
+    ]);
+
+    expect(calls.map((url) => url.split("/").pop())).toEqual(["first", "second", "first"]);
+  });
+
+  it("should count retries and rate limits per run", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(rateLimited())
+      .mockImplementation(async () => jsonResponse(200, { object: "page", id: "page" }));
+    const client = createClient(fetch);
+
+    const [limitedRun, cleanRun] = await Promise.all([
+      client.trackRun(async () => {
+        await client.pages.retrieve({ page_id: "page" });
+        return client.getRunStats();
+      }),
+      client.trackRun(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await client.pages.retrieve({ page_id: "page" });
+        return client.getRunStats();
+      }),
+    ]);
+
+    expect(limitedRun).toEqual({ retriedRequestsCount: 1, rateLimitedCount: 1 });
+    expect(cleanRun).toEqual({ retriedRequestsCount: 0, rateLimitedCount: 0 });
+    expect(client.stats).toEqual({ retriedRequestsCount: 1, rateLimitedCount: 1 });
+  });
+
+  it("should limit the number of parallel requests", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const fetch = vi.fn().mockImplementation(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return jsonResponse(200, { object: "page", id: "page" });
+    });
+    const client = createClient(fetch);
+
+    await Promise.all(Array.from({ length: 8 }, () => client.pages.retrieve({ page_id: "page" })));
+
+    expect(fetch).toHaveBeenCalledTimes(8);
+    expect(maxActive).toBeLessThanOrEqual(3);
+  });
+});
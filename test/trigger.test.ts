@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { prepareCloneRequest } from "../lib/request.js";
+import { isAutomationPayload, parseAutomationTrigger } from "../lib/trigger.js";
+
+const env = {
+  NOTION_TOKEN: "secret_test_token_123",
+  SOURCE_DATABASE_ID: "12345678901234567890123456789012",
+  PARENT_PAGE_ID: "98765432109876543210987654321098",
+  ALLOWED_SOURCE_DATABASE_IDS: "abcdefabcdefabcdefabcdefabcdefab",
+};
+
+function automationPayload(properties: any) {
+  return {
+    source: { type: "automation", automation_id: "a1", action_id: "b2", event_id: "c3" },
+    data: { object: "page", id: "5f0c2a9e-3b7d-4c1a-9e2f-6d8b7a1c4e30", properties },
+  };
+}
+
+const text = (content: string) => ({
+  type: "rich_text",
+  rich_text: [{ type: "text", plain_text: content, text: { content } }],
+});
+
+describe("Automation triggers", () => {
+  const backup = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...backup };
+  });
+
+  it("should recognize Notion automation payloads", () => {
+    expect(isAutomationPayload(automationPayload({}))).toBe(true);
+    expect(isAutomationPayload({ profile: "smoke" })).toBe(false);
+    expect(isAutomationPayload(undefined)).toBe(false);
+  });
+
+  it("should read the run settings from the triggering page", () => {
+    const trigger = parseAutomationTrigger(
+      automationPayload({
+        "Clone Profile": { type: "select", select: { name: "smoke" } },
+        "Source Database": {
+          type: "url",
+          url: "https://www.notion.so/team/Checklist-abcdefabcdefabcdefabcdefabcdefab?v=123",
+        },
+        "Clone Name": text("Release 2.4 ({date})"),
+        "Clone URL": { type: "url", url: null },
+      }),
+    );
+
+    expect(trigger).toEqual({
+      pageId: "5f0c2a9e-3b7d-4c1a-9e2f-6d8b7a1c4e30",
+      profile: "smoke",
+      sourceDatabaseId: "abcdefabcdefabcdefabcdefabcdefab",
+      nameTemplate: "Release 2.4 ({date})",
+      resultProperty: { name: "Clone URL", type: "url" },
+    });
+  });
+
+  it("should use the property names from TRIGGER_PROPERTIES", () => {
+    process.env.TRIGGER_PROPERTIES = JSON.stringify({ name: "Run name", result: "Run link" });
+
+    const trigger = parseAutomationTrigger(
+      automationPayload({
+        "Run name": text("Nightly"),
+        "Run link": text(""),
+      }),
+    );
+
+    expect(trigger.nameTemplate).toBe("Nightly");
+    expect(trigger.profile).toBeUndefined();
+    expect(trigger.resultProperty).toEqual({ name: "Run link", type: "rich_text" });
+  });
+
+  it("should apply the trigger source and name to the run", () => {
+    Object.assign(process.env, env);
+
+    const request = prepareCloneRequest(
+      automationPayload({
+        "Source Database": text("abcdefab-cdef-abcd-efab-cdefabcdefab"),
+        "Clone Name": text("Triggered run"),
+      }),
+    );
+
+    expect(request.profile.sourceDatabaseId).toBe("abcdefabcdefabcdefabcdefabcdefab");
+    expect(request.naming.template).toBe("Triggered run");
+    expect(request.trigger?.pageId).toBe("5f0c2a9e-3b7d-4c1a-9e2f-6d8b7a1c4e30");
+  });
+
+  it("should keep trigger sources on the allowlist", () => {
+    Object.assign(process.env, env);
+
+    expect(() =>
+      prepareCloneRequest(
+        automationPayload({ "Source Database": text("00000000000000000000000000000000") }),
+      ),
+    ).toThrow("is not on the allowlist");
+  });
+});